@@ -1,22 +1,58 @@
-import { useState } from 'react';
+import { useCallback, useState } from 'react';
 import { TitleScreen } from './components/TitleScreen';
 import { MenuScreen } from './components/MenuScreen';
+import { ModeScreen } from './components/ModeScreen';
+import { DailyScreen } from './components/DailyScreen';
+import { ChallengesScreen } from './components/ChallengesScreen';
+import { ShopScreen } from './components/ShopScreen';
 import { PlayScreen } from './components/PlayScreen';
+import { GameOverScreen } from './components/GameOverScreen';
 import { motion, AnimatePresence } from 'motion/react';
+import { DailyChallenge } from './game/daily';
+import { RunSummary } from './game/engine';
+import { recordRun, RunRecord } from './game/profile';
+import { GameMode } from './game/types';
 
-type Screen = 'title' | 'menu' | 'play';
+type Screen = 'title' | 'menu' | 'modes' | 'daily' | 'challenges' | 'shop' | 'play' | 'gameOver';
 
 export default function App() {
   const [currentScreen, setCurrentScreen] = useState<Screen>('title');
+  const [mode, setMode] = useState<GameMode>('endless');
+  // The daily challenge picked on the daily screen, kept for retries.
+  const [daily, setDaily] = useState<DailyChallenge>();
+  // The shop opens from the menu and after a run, and goes back to wherever it came from.
+  const [shopReturn, setShopReturn] = useState<Screen>('menu');
+  const [lastRun, setLastRun] = useState<{ summary: RunSummary; record: RunRecord } | null>(null);
 
   const handlePlayGame = () => {
     setCurrentScreen('play');
   };
 
+  const handleSelectMode = (selected: GameMode) => {
+    setMode(selected);
+    setCurrentScreen('play');
+  };
+
+  const handlePlayDaily = (challenge: DailyChallenge) => {
+    setDaily(challenge);
+    handleSelectMode('daily');
+  };
+
+  const handleShop = (from: Screen) => {
+    setShopReturn(from);
+    setCurrentScreen('shop');
+  };
+
   const handlePause = () => {
     setCurrentScreen('menu');
   };
 
+  // The run's results are saved before the game over screen shows them.
+  const handleGameOver = useCallback((summary: RunSummary) => {
+    setLastRun({ summary, record: recordRun(summary) });
+    setCurrentScreen('gameOver');
+  }, []);
+
   return (
     <div className="h-screen w-full overflow-hidden">
       <AnimatePresence mode="wait">
@@ -40,7 +76,61 @@ export default function App() {
             exit={{ opacity: 0 }}
             transition={{ duration: 0.5 }}
           >
-            <MenuScreen onBack={() => setCurrentScreen('title')} onPlayGame={handlePlayGame} />
+            <MenuScreen
+              onBack={() => setCurrentScreen('title')}
+              onPlayGame={() => setCurrentScreen('modes')}
+              onDailyChallenge={() => setCurrentScreen('daily')}
+              onChallenges={() => setCurrentScreen('challenges')}
+              onShop={() => handleShop('menu')}
+            />
+          </motion.div>
+        )}
+
+        {currentScreen === 'modes' && (
+          <motion.div
+            key="modes"
+            initial={{ opacity: 0, scale: 1.2 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0 }}
+            transition={{ duration: 0.5 }}
+          >
+            <ModeScreen onSelect={handleSelectMode} onBack={() => setCurrentScreen('menu')} />
+          </motion.div>
+        )}
+
+        {currentScreen === 'daily' && (
+          <motion.div
+            key="daily"
+            initial={{ opacity: 0, scale: 1.2 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0 }}
+            transition={{ duration: 0.5 }}
+          >
+            <DailyScreen onPlay={handlePlayDaily} onBack={() => setCurrentScreen('menu')} />
+          </motion.div>
+        )}
+
+        {currentScreen === 'challenges' && (
+          <motion.div
+            key="challenges"
+            initial={{ opacity: 0, scale: 1.2 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0 }}
+            transition={{ duration: 0.5 }}
+          >
+            <ChallengesScreen onBack={() => setCurrentScreen('menu')} />
+          </motion.div>
+        )}
+
+        {currentScreen === 'shop' && (
+          <motion.div
+            key="shop"
+            initial={{ opacity: 0, scale: 1.2 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0 }}
+            transition={{ duration: 0.5 }}
+          >
+            <ShopScreen onBack={() => setCurrentScreen(shopReturn)} />
           </motion.div>
         )}
 
@@ -52,7 +142,25 @@ export default function App() {
             exit={{ opacity: 0, y: -50 }}
             transition={{ duration: 0.5 }}
           >
-            <PlayScreen onPause={handlePause} />
+            <PlayScreen mode={mode} daily={daily} onPause={handlePause} onGameOver={handleGameOver} />
+          </motion.div>
+        )}
+
+        {currentScreen === 'gameOver' && lastRun && (
+          <motion.div
+            key="gameOver"
+            initial={{ opacity: 0, scale: 1.1 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0 }}
+            transition={{ duration: 0.5 }}
+          >
+            <GameOverScreen
+              summary={lastRun.summary}
+              record={lastRun.record}
+              onRetry={handlePlayGame}
+              onShop={() => handleShop('gameOver')}
+              onMenu={() => setCurrentScreen('menu')}
+            />
           </motion.div>
         )}
       </AnimatePresence>
@@ -0,0 +1,134 @@
+import { motion } from 'motion/react';
+import { ArrowLeft, Coins, Gift } from 'lucide-react';
+import { useState } from 'react';
+import { FeltButton } from './FeltButton';
+import { CHALLENGES, challengeProgress, claimChallenge, rewardText } from '../game/challenges';
+import { loadProfile } from '../game/profile';
+
+interface ChallengesScreenProps {
+  onBack: () => void;
+}
+
+const feltTexture = `url("data:image/svg+xml,%3Csvg viewBox='0 0 400 400' xmlns='http://www.w3.org/2000/svg'%3E%3Cfilter id='noiseFilter'%3E%3CfeTurbulence type='fractalNoise' baseFrequency='0.9' numOctaves='4' stitchTiles='stitch'/%3E%3C/filter%3E%3Crect width='100%25' height='100%25' filter='url(%23noiseFilter)'/%3E%3C/svg%3E")`;
+
+// Every challenge with how far along it is, after ChallengesViewController.
+// Completed ones wait here for their rewards to be claimed, ready ones first.
+export function ChallengesScreen({ onBack }: ChallengesScreenProps) {
+  const [profile, setProfile] = useState(loadProfile);
+  const rank = (id: string) => {
+    const progress = profile.challenges[id];
+    if (!progress?.completed) return 1;
+    return progress.claimed ? 2 : 0;
+  };
+  const challenges = [...CHALLENGES].sort((a, b) => rank(a.id) - rank(b.id));
+
+  return (
+    <div className="relative h-screen w-full overflow-hidden bg-gradient-to-br from-teal-900 via-emerald-900 to-cyan-900">
+      {/* Paper/canvas texture overlay */}
+      <div
+        className="absolute inset-0 opacity-10"
+        style={{
+          backgroundImage: `url("data:image/svg+xml,%3Csvg viewBox='0 0 400 400' xmlns='http://www.w3.org/2000/svg'%3E%3Cfilter id='noiseFilter'%3E%3CfeTurbulence type='fractalNoise' baseFrequency='0.65' numOctaves='3' stitchTiles='stitch'/%3E%3C/filter%3E%3Crect width='100%25' height='100%25' filter='url(%23noiseFilter)'/%3E%3C/svg%3E")`,
+        }}
+      />
+
+      <div className="relative z-10 flex h-full flex-col items-center justify-center gap-4 p-4 sm:gap-6 sm:p-8">
+        {/* Title badge */}
+        <motion.div
+          initial={{ y: -50, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+          transition={{ type: 'spring', stiffness: 100 }}
+          style={{ filter: 'drop-shadow(0 6px 12px rgba(0, 0, 0, 0.3))' }}
+        >
+          <div
+            className="relative bg-gradient-to-br from-teal-600 to-emerald-700 px-8 py-4 sm:px-12 sm:py-5"
+            style={{
+              borderRadius: '45% 55% 52% 48% / 48% 52% 48% 52%',
+              border: '3px solid rgba(255, 255, 255, 0.3)',
+            }}
+          >
+            <div
+              className="absolute inset-0 opacity-20"
+              style={{ backgroundImage: feltTexture, borderRadius: 'inherit', mixBlendMode: 'overlay' }}
+            />
+            <h2 className="relative z-10 text-white text-center drop-shadow-md">CHALLENGES</h2>
+          </div>
+        </motion.div>
+        <p className="flex items-center gap-1 text-white/80">
+          <Coins className="h-4 w-4" />
+          Wallet {profile.coins.toLocaleString()}
+        </p>
+
+        {/* Challenge list */}
+        <div className="flex w-full max-w-md flex-col gap-3" style={{ maxHeight: '60vh', overflowY: 'auto' }}>
+          {challenges.map((challenge, index) => {
+            const progress = profile.challenges[challenge.id];
+            const value = challengeProgress(challenge, profile.challengeStats);
+            const claimable = progress?.completed && !progress.claimed;
+            return (
+              <motion.div
+                key={challenge.id}
+                className={`relative flex flex-col gap-1 bg-gradient-to-br ${
+                  claimable ? 'from-amber-500 to-orange-600' : 'from-teal-600 to-emerald-700'
+                } p-3`}
+                initial={{ opacity: 0, x: index % 2 === 0 ? -50 : 50 }}
+                animate={{ opacity: progress?.claimed ? 0.6 : 1, x: 0 }}
+                transition={{ delay: Math.min(index, 8) * 0.05 }}
+                style={{ borderRadius: 16, border: '3px solid rgba(255, 255, 255, 0.3)' }}
+              >
+                <div
+                  className="absolute inset-0 opacity-20"
+                  style={{ backgroundImage: feltTexture, borderRadius: 'inherit', mixBlendMode: 'overlay' }}
+                />
+                <div className="relative z-10 flex items-center justify-between gap-3 text-white">
+                  <span>{challenge.title}</span>
+                  <span className="text-white/80" style={{ fontSize: 14 }}>
+                    {rewardText(challenge.reward)}
+                  </span>
+                </div>
+                <p className="relative z-10 text-white/80" style={{ fontSize: 14 }}>
+                  {challenge.description}
+                </p>
+                <div className="relative z-10 flex items-center gap-3 text-white" style={{ fontSize: 14 }}>
+                  <div style={{ flex: 1, height: 6, borderRadius: 3, background: 'rgba(255, 255, 255, 0.2)' }}>
+                    <div
+                      style={{
+                        width: `${(value / challenge.requirement) * 100}%`,
+                        height: '100%',
+                        borderRadius: 'inherit',
+                        background: 'rgb(253, 224, 71)',
+                      }}
+                    />
+                  </div>
+                  {progress?.claimed ? (
+                    <span>✓ Claimed</span>
+                  ) : claimable ? (
+                    <FeltButton
+                      icon={Gift}
+                      onClick={() => setProfile(claimChallenge(challenge.id))}
+                      variant="secondary"
+                      iconClassName="h-4 w-4"
+                      gradientColor="from-lime-400 to-emerald-600"
+                    >
+                      Claim
+                    </FeltButton>
+                  ) : (
+                    <span>
+                      {value.toLocaleString()}/{challenge.requirement.toLocaleString()}
+                    </span>
+                  )}
+                </div>
+              </motion.div>
+            );
+          })}
+        </div>
+
+        <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} transition={{ delay: 0.3 }}>
+          <FeltButton icon={ArrowLeft} onClick={onBack} variant="secondary" iconClassName="h-6 w-6">
+            Back
+          </FeltButton>
+        </motion.div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import { motion } from 'motion/react';
+import { ArrowLeft, Play, Timer, Flag } from 'lucide-react';
+import { useMemo } from 'react';
+import { FeltButton } from './FeltButton';
+import { Configuration } from '../game/config';
+import { DailyChallenge, formatDailyTime, todaysChallenge } from '../game/daily';
+import { loadProfile } from '../game/profile';
+
+interface DailyScreenProps {
+  /** Starts a run at the challenge shown, even if the day has turned since. */
+  onPlay: (challenge: DailyChallenge) => void;
+  onBack: () => void;
+}
+
+const feltTexture = `url("data:image/svg+xml,%3Csvg viewBox='0 0 400 400' xmlns='http://www.w3.org/2000/svg'%3E%3Cfilter id='noiseFilter'%3E%3CfeTurbulence type='fractalNoise' baseFrequency='0.9' numOctaves='4' stitchTiles='stitch'/%3E%3C/filter%3E%3Crect width='100%25' height='100%25' filter='url(%23noiseFilter)'/%3E%3C/svg%3E")`;
+
+// Today's challenge and how the player has done on it so far, before they
+// set off. Everyone gets the same challenge on the same day.
+export function DailyScreen({ onPlay, onBack }: DailyScreenProps) {
+  const challenge = useMemo(todaysChallenge, []);
+  const result = useMemo(() => loadProfile().dailyResults[challenge.date], [challenge]);
+  const { dailyChallengeDistance, dailyChallengeReward } = Configuration.GameRules;
+
+  return (
+    <div className="relative h-screen w-full overflow-hidden bg-gradient-to-br from-teal-900 via-emerald-900 to-cyan-900">
+      {/* Paper/canvas texture overlay */}
+      <div
+        className="absolute inset-0 opacity-10"
+        style={{
+          backgroundImage: `url("data:image/svg+xml,%3Csvg viewBox='0 0 400 400' xmlns='http://www.w3.org/2000/svg'%3E%3Cfilter id='noiseFilter'%3E%3CfeTurbulence type='fractalNoise' baseFrequency='0.65' numOctaves='3' stitchTiles='stitch'/%3E%3C/filter%3E%3Crect width='100%25' height='100%25' filter='url(%23noiseFilter)'/%3E%3C/svg%3E")`,
+        }}
+      />
+
+      <div className="relative z-10 flex h-full flex-col items-center justify-center gap-4 p-4 sm:gap-6 sm:p-8">
+        {/* Title badge */}
+        <motion.div
+          initial={{ y: -50, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+          transition={{ type: 'spring', stiffness: 100 }}
+          style={{ filter: 'drop-shadow(0 6px 12px rgba(0, 0, 0, 0.3))' }}
+        >
+          <div
+            className="relative bg-gradient-to-br from-amber-500 to-orange-600 px-8 py-4 sm:px-12 sm:py-5"
+            style={{
+              borderRadius: '45% 55% 52% 48% / 48% 52% 48% 52%',
+              border: '3px solid rgba(255, 255, 255, 0.3)',
+            }}
+          >
+            <div
+              className="absolute inset-0 opacity-20"
+              style={{ backgroundImage: feltTexture, borderRadius: 'inherit', mixBlendMode: 'overlay' }}
+            />
+            <h2 className="relative z-10 text-white text-center drop-shadow-md">DAILY CHALLENGE</h2>
+          </div>
+        </motion.div>
+        <p className="text-white/60 text-center">{challenge.date}</p>
+
+        {/* The challenge */}
+        <motion.div
+          className="relative flex w-full max-w-md flex-col items-center gap-3 bg-gradient-to-br from-teal-600 to-emerald-700 p-4 sm:p-8"
+          initial={{ scale: 0.8, opacity: 0 }}
+          animate={{ scale: 1, opacity: 1 }}
+          transition={{ delay: 0.2, type: 'spring' }}
+          style={{
+            borderRadius: '42% 58% 45% 55% / 48% 52% 48% 52%',
+            border: '3px solid rgba(255, 255, 255, 0.3)',
+            filter: 'drop-shadow(0 6px 12px rgba(0, 0, 0, 0.3))',
+          }}
+        >
+          <div
+            className="absolute inset-0 opacity-20"
+            style={{ backgroundImage: feltTexture, borderRadius: 'inherit', mixBlendMode: 'overlay' }}
+          />
+          <p className="relative z-10 text-white text-center drop-shadow-lg" style={{ fontSize: 24 }}>
+            {challenge.name}
+          </p>
+          <p className="relative z-10 text-white/80 text-center">{challenge.description}</p>
+          <p className="relative z-10 flex items-center gap-1 text-white">
+            <Flag className="h-4 w-4" />
+            Reach {dailyChallengeDistance.toLocaleString()}m · {dailyChallengeReward} coins
+          </p>
+
+          {/* Today's record */}
+          <div className="relative z-10 flex flex-wrap items-center justify-center gap-4 text-white/80">
+            {result?.completed ? (
+              <span className="flex items-center gap-1">
+                <Timer className="h-4 w-4" />
+                Best {formatDailyTime(result.bestTime)}
+              </span>
+            ) : (
+              result && <span>Best {result.bestDistance.toLocaleString()}m</span>
+            )}
+            <span>
+              {result ? `${result.attempts} ${result.attempts === 1 ? 'attempt' : 'attempts'}` : 'Not tried yet'}
+            </span>
+            {result?.completed && <span>✓ Completed</span>}
+          </div>
+        </motion.div>
+
+        {/* Actions */}
+        <motion.div
+          className="flex flex-wrap items-center justify-center gap-3"
+          initial={{ y: 50, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+          transition={{ delay: 0.4 }}
+        >
+          <FeltButton icon={Play} onClick={() => onPlay(challenge)} iconClassName="h-6 w-6">
+            {result ? 'Go Again' : 'Start'}
+          </FeltButton>
+          <FeltButton icon={ArrowLeft} onClick={onBack} variant="secondary" iconClassName="h-6 w-6">
+            Back
+          </FeltButton>
+        </motion.div>
+      </div>
+    </div>
+  );
+}
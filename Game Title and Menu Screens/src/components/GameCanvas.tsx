@@ -0,0 +1,79 @@
+import { useEffect, useRef } from 'react';
+import { ChallengeTracker } from '../game/challenges';
+import { DailyChallenge } from '../game/daily';
+import { GameEngine } from '../game/engine';
+import { CarriedItem } from '../game/items';
+import { carriedItems, loadProfile, recordCombo, spendItem } from '../game/profile';
+import { upgradeEffects } from '../game/upgrades';
+import { GameMode } from '../game/types';
+
+interface GameCanvasProps {
+  className?: string;
+  mode?: GameMode;
+  /** The challenge for a daily run; today's if left out. */
+  daily?: DailyChallenge;
+  /** Receives the running engine once it starts, and null once it's torn down. */
+  onEngine?: (engine: GameEngine | null) => void;
+}
+
+export function GameCanvas({ className = '', mode = 'endless', daily, onEngine }: GameCanvasProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Kept in a ref so a new callback doesn't restart the run.
+  const onEngineRef = useRef(onEngine);
+  onEngineRef.current = onEngine;
+
+  useEffect(() => {
+    const container = containerRef.current;
+    const canvas = canvasRef.current;
+    if (!container || !canvas) return;
+
+    // The run starts with the items kept in the profile; the engine alone starts with none.
+    const profile = loadProfile();
+    const carried = carriedItems(profile);
+    const engine = new GameEngine(canvas, {
+      inventory: carried,
+      upgrades: upgradeEffects(profile),
+      mode,
+      raceWinStreak: profile.raceWinStreak,
+      daily,
+    });
+    const tracker = new ChallengeTracker(engine);
+    // Kept items are spent as they're used; ones found in chests during the run aren't kept.
+    const spend = (item: CarriedItem) => {
+      if (carried[item] <= 0) return;
+      carried[item]--;
+      spendItem(item);
+    };
+    const offItemUsed = engine.on('itemUsed', ({ item }) => spend(item));
+    const offRescue = engine.on('scrollSaverRescue', () => spend('scrollSavers'));
+    // A vest worn when the frog falls in is used up too, without being tapped.
+    const offFall = engine.on('fallIntoWater', ({ savedByVest }) => {
+      if (savedByVest) spend('vest');
+    });
+    const resize = () => engine.resize(container.clientWidth, container.clientHeight);
+    const observer = new ResizeObserver(resize);
+    observer.observe(container);
+    resize();
+    engine.start();
+    onEngineRef.current?.(engine);
+
+    return () => {
+      onEngineRef.current?.(null);
+      // A run left before it's over still keeps its best combo.
+      recordCombo(engine.bestCombo);
+      tracker.stop();
+      offItemUsed();
+      offRescue();
+      offFall();
+      observer.disconnect();
+      engine.destroy();
+    };
+  }, [mode, daily]);
+
+  return (
+    <div ref={containerRef} className={`relative h-full w-full overflow-hidden ${className}`}>
+      <canvas ref={canvasRef} className="absolute inset-0 h-full w-full" />
+    </div>
+  );
+}
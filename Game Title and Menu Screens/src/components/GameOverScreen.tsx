@@ -0,0 +1,215 @@
+import { motion } from 'motion/react';
+import { RotateCcw, ShoppingBag, Home, Coins, Flame, Sailboat, Timer, Award } from 'lucide-react';
+import { useMemo } from 'react';
+import { FeltButton } from './FeltButton';
+import { unclaimedChallenges } from '../game/challenges';
+import { WEATHER_TYPES, WeatherType } from '../game/config';
+import { createDailyChallenge, formatDailyTime } from '../game/daily';
+import { GameOverReason, RunSummary } from '../game/engine';
+import { loadProfile, RunRecord } from '../game/profile';
+
+interface GameOverScreenProps {
+  summary: RunSummary;
+  record: RunRecord;
+  onRetry: () => void;
+  /** Opens the shop; the button is left out when there's no shop to go to. */
+  onShop?: () => void;
+  onMenu: () => void;
+}
+
+// Headline and explanation for each way a run can end, after GameOverViewController.
+const REASONS: Record<GameOverReason, { title: string; message: string }> = {
+  scrolledOffScreen: { title: 'LEFT BEHIND!', message: 'The river moved on without you.' },
+  outOfHealth: { title: 'WIPED OUT!', message: 'You lost all your hearts.' },
+  drowned: { title: 'SPLASH!', message: 'You drowned in the river.' },
+  fellInDesert: { title: 'SCORCHED!', message: 'You fell onto the desert floor.' },
+  floatedAway: { title: 'LOST IN SPACE!', message: 'You drifted off into space.' },
+  missedLaunchPad: { title: 'MISSED IT!', message: 'You flew past the launch pad.' },
+  outrun: { title: 'TOO SLOW!', message: 'The boat crossed the line first.' },
+  wonRace: { title: 'YOU WIN!', message: 'You beat the boat to the finish line!' },
+  completedChallenge: { title: 'FINISHED!', message: "You completed today's challenge!" },
+};
+
+const BIOMES: Record<WeatherType, { name: string; color: string }> = {
+  sunny: { name: 'Sunny', color: 'rgb(250, 204, 21)' },
+  night: { name: 'Night', color: 'rgb(99, 102, 241)' },
+  rain: { name: 'Rain', color: 'rgb(56, 189, 248)' },
+  winter: { name: 'Winter', color: 'rgb(226, 232, 240)' },
+  desert: { name: 'Desert', color: 'rgb(251, 146, 60)' },
+  space: { name: 'Space', color: 'rgb(192, 132, 252)' },
+};
+
+const feltTexture = `url("data:image/svg+xml,%3Csvg viewBox='0 0 400 400' xmlns='http://www.w3.org/2000/svg'%3E%3Cfilter id='noiseFilter'%3E%3CfeTurbulence type='fractalNoise' baseFrequency='0.9' numOctaves='4' stitchTiles='stitch'/%3E%3C/filter%3E%3Crect width='100%25' height='100%25' filter='url(%23noiseFilter)'/%3E%3C/svg%3E")`;
+
+// The end of a run: why it ended, how it went and where to go next. The
+// results have already been saved by the time this shows.
+export function GameOverScreen({ summary, record, onRetry, onShop, onMenu }: GameOverScreenProps) {
+  const { title, message } = REASONS[summary.reason];
+  const won = summary.race?.type === 'win' || !!summary.daily?.completed;
+  const { daily: dailyResult } = record;
+  const biomes = WEATHER_TYPES.filter((biome) => (summary.distanceByBiome[biome] ?? 0) > 0);
+  const unclaimed = useMemo(() => unclaimedChallenges(loadProfile()).length, []);
+
+  return (
+    <div className="relative h-screen w-full overflow-hidden bg-gradient-to-br from-teal-900 via-emerald-900 to-cyan-900">
+      {/* Paper/canvas texture overlay */}
+      <div
+        className="absolute inset-0 opacity-10"
+        style={{
+          backgroundImage: `url("data:image/svg+xml,%3Csvg viewBox='0 0 400 400' xmlns='http://www.w3.org/2000/svg'%3E%3Cfilter id='noiseFilter'%3E%3CfeTurbulence type='fractalNoise' baseFrequency='0.65' numOctaves='3' stitchTiles='stitch'/%3E%3C/filter%3E%3Crect width='100%25' height='100%25' filter='url(%23noiseFilter)'/%3E%3C/svg%3E")`,
+        }}
+      />
+
+      <div className="relative z-10 flex h-full flex-col items-center justify-center gap-4 p-4 sm:gap-6 sm:p-8">
+        {/* Title badge */}
+        <motion.div
+          initial={{ y: -50, opacity: 0, rotate: -6 }}
+          animate={{ y: 0, opacity: 1, rotate: 0 }}
+          transition={{ type: 'spring', stiffness: 120 }}
+          style={{ filter: 'drop-shadow(0 6px 12px rgba(0, 0, 0, 0.3))' }}
+        >
+          <div
+            className={`relative bg-gradient-to-br ${
+              won ? 'from-teal-600 to-emerald-700' : 'from-red-500 to-orange-600'
+            } px-8 py-4 sm:px-12 sm:py-5`}
+            style={{
+              borderRadius: '45% 55% 52% 48% / 48% 52% 48% 52%',
+              border: '3px solid rgba(255, 255, 255, 0.3)',
+            }}
+          >
+            <div
+              className="absolute inset-0 opacity-20"
+              style={{ backgroundImage: feltTexture, borderRadius: 'inherit', mixBlendMode: 'overlay' }}
+            />
+            <h2 className="relative z-10 text-white text-center drop-shadow-md">{title}</h2>
+          </div>
+        </motion.div>
+        <p className="text-white/80 text-center">{message}</p>
+
+        {/* Run summary */}
+        <motion.div
+          className="relative flex w-full max-w-md flex-col items-center gap-3 bg-gradient-to-br from-teal-600 to-emerald-700 p-4 sm:p-8"
+          initial={{ scale: 0.8, opacity: 0 }}
+          animate={{ scale: 1, opacity: 1 }}
+          transition={{ delay: 0.2, type: 'spring' }}
+          style={{
+            borderRadius: '42% 58% 45% 55% / 48% 52% 48% 52%',
+            border: '3px solid rgba(255, 255, 255, 0.3)',
+            filter: 'drop-shadow(0 6px 12px rgba(0, 0, 0, 0.3))',
+          }}
+        >
+          <div
+            className="absolute inset-0 opacity-20"
+            style={{ backgroundImage: feltTexture, borderRadius: 'inherit', mixBlendMode: 'overlay' }}
+          />
+
+          <div className="relative z-10 flex flex-col items-center">
+            <p className="text-white/80">Score</p>
+            <p className="text-white drop-shadow-lg" style={{ fontSize: 40 }}>
+              {summary.score.toLocaleString()}
+            </p>
+            {summary.daily && dailyResult ? (
+              <div className="flex flex-col items-center text-white/80">
+                <p className="text-white">{createDailyChallenge(summary.daily.date).name}</p>
+                {summary.daily.completed ? (
+                  <p className="flex items-center gap-1">
+                    <Timer className="h-4 w-4" />
+                    {formatDailyTime(summary.daily.time)}
+                    {summary.daily.time === dailyResult.bestTime ? ' (best!)' : ` · best ${formatDailyTime(dailyResult.bestTime)}`}
+                  </p>
+                ) : (
+                  <p>
+                    {summary.distance.toLocaleString()}m · best {dailyResult.bestDistance.toLocaleString()}m
+                  </p>
+                )}
+                <p className="text-white/60">
+                  Attempt {dailyResult.attempts}
+                  {record.dailyReward > 0 ? ` · +${record.dailyReward} coins for finishing` : ''}
+                </p>
+              </div>
+            ) : summary.race ? (
+              <p className="flex items-center gap-1 text-white/80">
+                <Sailboat className="h-4 w-4" />
+                {won ? `${record.raceWinStreak} win streak` : 'Win streak over'}
+              </p>
+            ) : record.isNewHighScore ? (
+              <motion.p
+                className="text-white drop-shadow-md"
+                style={{ color: 'rgb(253, 224, 71)' }}
+                animate={{ scale: [1, 1.15, 1] }}
+                transition={{ duration: 0.6, repeat: Infinity }}
+              >
+                🎉 NEW HIGH SCORE! 🎉
+              </motion.p>
+            ) : (
+              <p className="text-white/60">{summary.distance.toLocaleString()}m travelled</p>
+            )}
+          </div>
+
+          <div className="relative z-10 flex flex-wrap items-center justify-center gap-4 text-white">
+            <span className="flex items-center gap-1">
+              <Coins className="h-4 w-4" />+{summary.coins} · Wallet {record.totalCoins.toLocaleString()}
+            </span>
+            <span className="flex items-center gap-1">
+              <Flame className="h-4 w-4" />
+              Best combo ×{summary.bestCombo}
+              {record.isNewBestCombo && summary.bestCombo > 0 ? ' (record!)' : ''}
+            </span>
+          </div>
+
+          {unclaimed > 0 && (
+            <p className="relative z-10 flex items-center gap-1 text-white" style={{ color: 'rgb(253, 224, 71)' }}>
+              <Award className="h-4 w-4" />
+              {unclaimed === 1 ? '1 challenge reward' : `${unclaimed} challenge rewards`} to claim
+            </p>
+          )}
+
+          {/* Distance in each biome, as a share of the whole run */}
+          {biomes.length > 0 && (
+            <div className="relative z-10 flex w-full flex-col gap-1">
+              {biomes.map((biome) => {
+                const distance = summary.distanceByBiome[biome] ?? 0;
+                return (
+                  <div key={biome} className="flex items-center gap-3 text-white" style={{ fontSize: 14 }}>
+                    <span style={{ width: 56 }}>{BIOMES[biome].name}</span>
+                    <div style={{ flex: 1, height: 6, borderRadius: 3, background: 'rgba(255, 255, 255, 0.2)' }}>
+                      <motion.div
+                        style={{ height: '100%', borderRadius: 'inherit', background: BIOMES[biome].color }}
+                        initial={{ width: 0 }}
+                        animate={{ width: `${(distance / Math.max(1, summary.distance)) * 100}%` }}
+                        transition={{ delay: 0.4, duration: 0.6 }}
+                      />
+                    </div>
+                    <span className="text-white/80" style={{ width: 56, textAlign: 'right' }}>
+                      {distance.toLocaleString()}m
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </motion.div>
+
+        {/* Actions */}
+        <motion.div
+          className="flex flex-wrap items-center justify-center gap-3"
+          initial={{ y: 50, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+          transition={{ delay: 0.4 }}
+        >
+          <FeltButton icon={RotateCcw} onClick={onRetry} iconClassName="h-6 w-6">
+            {summary.race ? (won ? 'Rematch!' : 'Race Again') : 'Try Again'}
+          </FeltButton>
+          {onShop && (
+            <FeltButton icon={ShoppingBag} onClick={onShop} variant="secondary" iconClassName="h-6 w-6">
+              Shop
+            </FeltButton>
+          )}
+          <FeltButton icon={Home} onClick={onMenu} variant="secondary" iconClassName="h-6 w-6">
+            Menu
+          </FeltButton>
+        </motion.div>
+      </div>
+    </div>
+  );
+}
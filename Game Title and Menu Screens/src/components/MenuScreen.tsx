@@ -1,20 +1,26 @@
 import { motion } from 'motion/react';
-import { Play, Settings, Trophy, LogOut, Volume2, User } from 'lucide-react';
+import { Play, Settings, Trophy, LogOut, Volume2, User, CalendarDays, Award, ShoppingBag } from 'lucide-react';
 import { FeltButton } from './FeltButton';
 import { useState } from 'react';
 
 interface MenuScreenProps {
   onBack: () => void;
   onPlayGame: () => void;
+  onDailyChallenge: () => void;
+  onChallenges: () => void;
+  onShop: () => void;
 }
 
-export function MenuScreen({ onBack, onPlayGame }: MenuScreenProps) {
+export function MenuScreen({ onBack, onPlayGame, onDailyChallenge, onChallenges, onShop }: MenuScreenProps) {
   const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
   // Reduce orbs on mobile for better performance
   const orbCount = typeof window !== 'undefined' && window.innerWidth < 640 ? 4 : 8;
 
   const menuItems = [
     { icon: Play, label: 'Play Game', color: 'from-lime-400 to-emerald-600' },
+    { icon: CalendarDays, label: 'Daily Challenge', color: 'from-amber-500 to-orange-600' },
+    { icon: ShoppingBag, label: 'Shop', color: 'from-amber-500 to-orange-600' },
+    { icon: Award, label: 'Challenges', color: 'from-teal-600 to-emerald-700' },
     { icon: User, label: 'Profile', color: 'from-cyan-400 to-blue-600' },
     { icon: Trophy, label: 'Leaderboard', color: 'from-red-400 to-orange-600' },
     { icon: Settings, label: 'Settings', color: 'from-teal-400 to-emerald-600' },
@@ -125,6 +131,12 @@ export function MenuScreen({ onBack, onPlayGame }: MenuScreenProps) {
                       onBack();
                     } else if (item.label === 'Play Game') {
                       onPlayGame();
+                    } else if (item.label === 'Daily Challenge') {
+                      onDailyChallenge();
+                    } else if (item.label === 'Challenges') {
+                      onChallenges();
+                    } else if (item.label === 'Shop') {
+                      onShop();
                     } else {
                       console.log(`Selected: ${item.label}`);
                     }
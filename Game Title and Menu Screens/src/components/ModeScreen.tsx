@@ -0,0 +1,108 @@
+import { motion } from 'motion/react';
+import { ArrowLeft, Infinity as InfinityIcon, Sailboat } from 'lucide-react';
+import { useMemo } from 'react';
+import { FeltButton } from './FeltButton';
+import { loadProfile } from '../game/profile';
+import { createRace, raceLength } from '../game/race';
+import { GameMode } from '../game/types';
+
+interface ModeScreenProps {
+  onSelect: (mode: GameMode) => void;
+  onBack: () => void;
+}
+
+const feltTexture = `url("data:image/svg+xml,%3Csvg viewBox='0 0 400 400' xmlns='http://www.w3.org/2000/svg'%3E%3Cfilter id='noiseFilter'%3E%3CfeTurbulence type='fractalNoise' baseFrequency='0.9' numOctaves='4' stitchTiles='stitch'/%3E%3C/filter%3E%3Crect width='100%25' height='100%25' filter='url(%23noiseFilter)'/%3E%3C/svg%3E")`;
+
+// Picks between an endless run and a race against the boat before play. The
+// race card shows what the next race will be, which grows with every win in
+// a row.
+export function ModeScreen({ onSelect, onBack }: ModeScreenProps) {
+  const profile = useMemo(loadProfile, []);
+  const race = createRace(profile.raceWinStreak);
+
+  const modes = [
+    {
+      mode: 'endless' as const,
+      icon: InfinityIcon,
+      label: 'Endless',
+      color: 'from-lime-400 to-emerald-600',
+      details: profile.highScore > 0 ? `High score ${profile.highScore.toLocaleString()}` : 'Hop as far as you can',
+    },
+    {
+      mode: 'beatTheBoat' as const,
+      icon: Sailboat,
+      label: 'Beat the Boat',
+      color: 'from-blue-400 to-indigo-600',
+      details:
+        `${raceLength(race).toLocaleString()}m race · ${race.reward} coins` +
+        (profile.raceWinStreak > 0 ? ` · ${profile.raceWinStreak} win streak` : ''),
+    },
+  ];
+
+  return (
+    <div className="relative h-screen w-full overflow-hidden bg-gradient-to-br from-teal-900 via-emerald-900 to-cyan-900">
+      {/* Paper/canvas texture overlay */}
+      <div
+        className="absolute inset-0 opacity-10"
+        style={{
+          backgroundImage: `url("data:image/svg+xml,%3Csvg viewBox='0 0 400 400' xmlns='http://www.w3.org/2000/svg'%3E%3Cfilter id='noiseFilter'%3E%3CfeTurbulence type='fractalNoise' baseFrequency='0.65' numOctaves='3' stitchTiles='stitch'/%3E%3C/filter%3E%3Crect width='100%25' height='100%25' filter='url(%23noiseFilter)'/%3E%3C/svg%3E")`,
+        }}
+      />
+
+      <div className="relative z-10 flex h-full flex-col items-center justify-center gap-6 p-4 sm:gap-12 sm:p-8">
+        {/* Title badge */}
+        <motion.div
+          initial={{ y: -50, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+          transition={{ type: 'spring', stiffness: 100 }}
+          style={{ filter: 'drop-shadow(0 6px 12px rgba(0, 0, 0, 0.3))' }}
+        >
+          <div
+            className="relative bg-gradient-to-br from-teal-600 to-emerald-700 px-8 py-4 sm:px-12 sm:py-5"
+            style={{
+              borderRadius: '45% 55% 52% 48% / 48% 52% 48% 52%',
+              border: '3px solid rgba(255, 255, 255, 0.3)',
+            }}
+          >
+            <div
+              className="absolute inset-0 opacity-20"
+              style={{ backgroundImage: feltTexture, borderRadius: 'inherit', mixBlendMode: 'overlay' }}
+            />
+            <h2 className="relative z-10 text-white text-center drop-shadow-md">CHOOSE A MODE</h2>
+          </div>
+        </motion.div>
+
+        {/* Modes */}
+        <div className="grid w-full max-w-md gap-4 sm:max-w-2xl sm:grid-cols-2 sm:gap-5">
+          {modes.map(({ mode, icon, label, color, details }, index) => (
+            <motion.div
+              key={mode}
+              className="flex flex-col items-center gap-2"
+              initial={{ opacity: 0, x: index % 2 === 0 ? -50 : 50 }}
+              animate={{ opacity: 1, x: 0 }}
+              transition={{ delay: index * 0.1 }}
+            >
+              <FeltButton
+                icon={icon}
+                onClick={() => onSelect(mode)}
+                variant="secondary"
+                className="w-full"
+                iconClassName="h-6 w-6 sm:h-8 sm:w-8"
+                gradientColor={color}
+              >
+                {label}
+              </FeltButton>
+              <p className="text-white/80 text-center">{details}</p>
+            </motion.div>
+          ))}
+        </div>
+
+        <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} transition={{ delay: 0.3 }}>
+          <FeltButton icon={ArrowLeft} onClick={onBack} variant="secondary" iconClassName="h-6 w-6">
+            Back
+          </FeltButton>
+        </motion.div>
+      </div>
+    </div>
+  );
+}
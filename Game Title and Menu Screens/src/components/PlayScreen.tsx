@@ -1,10 +1,25 @@
-import { motion } from 'motion/react';
-import { Pause, Heart, Droplet, Bug, LifeBuoy, Axe } from 'lucide-react';
+import { AnimatePresence, motion } from 'motion/react';
+import { Pause, Heart, Droplet, Bug, LifeBuoy, Axe, Cross, Rocket, Zap, Bomb, Footprints, Flag, ChevronsUp } from 'lucide-react';
 import { FeltButton } from './FeltButton';
-import { useState } from 'react';
+import { GameCanvas } from './GameCanvas';
+import { TreasurePopup } from './TreasurePopup';
+import { useEffect, useMemo, useState } from 'react';
+import { Ability, ABILITY_TYPES, TimedBuff } from '../game/buffs';
+import { COMBO_TIMEOUT } from '../game/combo';
+import { DailyChallenge } from '../game/daily';
+import { GameEngine, HudState, ItemUseResult, RunSummary } from '../game/engine';
+import { WeaponType } from '../game/effects';
+import { ItemType, MAX_ITEM_COUNT } from '../game/items';
+import { spriteUrl } from '../game/sprites';
+import { TreasureReward } from '../game/treasure';
+import { GameMode } from '../game/types';
 
 interface PlayScreenProps {
+  mode?: GameMode;
+  /** The challenge for a daily run; see `GameCanvas`. */
+  daily?: DailyChallenge;
   onPause: () => void;
+  onGameOver: (summary: RunSummary) => void;
 }
 
 interface ItemCountProps {
@@ -12,15 +27,178 @@ interface ItemCountProps {
   count: number;
   maxCount: number;
   color: string;
+  /** Share of the cooldown still to run, from 1 down to 0. */
+  cooldown?: number;
+  /** A short note shown over the row, e.g. when there's nothing to use the item on. */
+  feedback?: ItemFeedback | null;
+  onUse?: () => void;
 }
 
-function ItemCount({ icon: Icon, count, maxCount, color }: ItemCountProps) {
+interface ItemFeedback {
+  id: number;
+  message: string;
+}
+
+const USE_FEEDBACK: Record<Exclude<ItemUseResult, 'used'>, string> = {
+  paused: 'Paused',
+  empty: 'None left',
+  coolingDown: 'Not yet!',
+  noTarget: 'No target',
+};
+
+const FEEDBACK_DURATION = 1200;
+// How long "GO!" stays up once a race starts.
+const RACE_START_DURATION = 1000;
+// How long the last moment of a run stays on screen before the game over screen.
+const GAME_OVER_DELAY = 800;
+
+const ABILITY_STYLES: Record<Ability, { icon: React.ElementType; color: string }> = {
+  superJump: { icon: Zap, color: 'bg-gradient-to-br from-yellow-500 to-orange-600' },
+  cannonJump: { icon: Bomb, color: 'bg-gradient-to-br from-purple-500 to-violet-600' },
+  boots: { icon: Footprints, color: 'bg-gradient-to-br from-red-500 to-rose-600' },
+  rocket: { icon: Rocket, color: 'bg-gradient-to-br from-slate-500 to-gray-600' },
+};
+
+interface AbilityButtonProps {
+  ability: Ability;
+  count: number;
+  /** Whole seconds left on the buff the ability grants; 0 while it's off. */
+  timeLeft: number;
+  armed: boolean;
+  onUse: () => void;
+}
+
+// A felt chip for an unlocked ability: its uses left, then a countdown while its buff runs.
+function AbilityButton({ ability, count, timeLeft, armed, onUse }: AbilityButtonProps) {
+  const { icon: Icon, color } = ABILITY_STYLES[ability];
+  const radius = useMemo(organicRadius, []);
+  const isActive = timeLeft > 0 || armed;
+
+  return (
+    <motion.div
+      className={`relative flex items-center gap-1 ${count > 0 || isActive ? color : 'bg-gray-600/50'}`}
+      role="button"
+      onClick={onUse}
+      initial={{ scale: 0 }}
+      animate={{ scale: isActive ? [1, 1.08, 1] : 1 }}
+      transition={isActive ? { duration: 0.8, repeat: Infinity } : { type: 'spring' }}
+      style={{
+        padding: '4px 8px',
+        borderRadius: radius,
+        border: `2px solid ${isActive ? 'rgba(255, 255, 255, 0.9)' : 'rgba(255, 255, 255, 0.4)'}`,
+        filter: 'drop-shadow(0 2px 4px rgba(0, 0, 0, 0.25))',
+        cursor: 'pointer',
+      }}
+    >
+      <Icon className="relative z-10 h-4 w-4 text-white sm:h-5 sm:w-5" />
+      <span className="relative z-10 text-white drop-shadow-md" style={{ fontSize: 12, whiteSpace: 'nowrap' }}>
+        {armed ? 'Armed!' : timeLeft > 0 ? `${timeLeft}s` : `×${count}`}
+      </span>
+    </motion.div>
+  );
+}
+
+const BUFF_FOR_ABILITY: Partial<Record<Ability, TimedBuff>> = {
+  superJump: 'superJump',
+  boots: 'boots',
+};
+
+// The combo count and multiplier under the score. The bar drains over the
+// time left to make the next landing, and starts over with every one.
+function ComboMeter({ count, multiplier, invincible }: HudState['combo']) {
+  return (
+    <motion.div
+      className="relative flex flex-col items-start gap-1"
+      style={{ marginTop: 8, filter: 'drop-shadow(0 2px 4px rgba(0, 0, 0, 0.25))' }}
+      initial={{ x: -40, opacity: 0 }}
+      animate={{ x: 0, opacity: 1 }}
+      exit={{ x: -40, opacity: 0 }}
+    >
+      <motion.span
+        key={count}
+        className="text-white drop-shadow-md"
+        style={{ fontSize: 14, whiteSpace: 'nowrap' }}
+        initial={{ scale: 1.4 }}
+        animate={{ scale: 1 }}
+      >
+        {invincible ? '⭐ ' : ''}Combo ×{count} · {multiplier.toFixed(1)}x
+      </motion.span>
+      <div style={{ width: 96, height: 4, borderRadius: 2, background: 'rgba(255, 255, 255, 0.25)' }}>
+        <motion.div
+          key={count}
+          style={{
+            height: '100%',
+            borderRadius: 'inherit',
+            background: invincible ? 'rgb(253, 224, 71)' : 'rgba(255, 255, 255, 0.9)',
+          }}
+          initial={{ width: '100%' }}
+          animate={{ width: '0%' }}
+          transition={{ duration: COMBO_TIMEOUT, ease: 'linear' }}
+        />
+      </div>
+    </motion.div>
+  );
+}
+
+// The race course up the side of the river, with the finish at the top and
+// the frog and the boat moving up towards it.
+function RaceTrack({ frog, boat }: { frog: number; boat: number }) {
+  const boatSprite = spriteUrl('boat');
+  const frogSprite = spriteUrl('frogSit');
+  const markers = [
+    { key: 'boat', progress: boat, sprite: boatSprite, fallback: '⛵' },
+    { key: 'frog', progress: frog, sprite: frogSprite, fallback: '🐸' },
+  ];
+
+  return (
+    <div
+      className="pointer-events-none absolute flex flex-col items-center"
+      style={{ left: 16, top: 12, bottom: 12, width: 32, filter: 'drop-shadow(0 2px 4px rgba(0, 0, 0, 0.3))' }}
+    >
+      <Flag className="h-5 w-5 text-white" />
+      <div className="relative" style={{ flex: 1, width: 6, borderRadius: 3, background: 'rgba(255, 255, 255, 0.35)' }}>
+        {markers.map(({ key, progress, sprite, fallback }) => (
+          <motion.div
+            key={key}
+            className="absolute"
+            style={{ left: '50%', width: 28, height: 28, x: '-50%', y: '50%' }}
+            animate={{ bottom: `${progress * 100}%` }}
+            transition={{ type: 'tween', ease: 'linear', duration: 0.2 }}
+          >
+            {sprite ? (
+              <img src={sprite} alt={key} style={{ width: '100%', height: '100%', objectFit: 'contain' }} />
+            ) : (
+              <span style={{ fontSize: 20 }}>{fallback}</span>
+            )}
+          </motion.div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function organicRadius() {
+  return `${45 + Math.random() * 10}% ${55 + Math.random() * 10}% ${50 + Math.random() * 10}% ${50 + Math.random() * 10}% / ${50 + Math.random() * 10}% ${50 + Math.random() * 10}% ${45 + Math.random() * 10}% ${55 + Math.random() * 10}%`;
+}
+
+function ItemCount({ icon: Icon, count, maxCount, color, cooldown = 0, feedback = null, onUse }: ItemCountProps) {
+  // Pick the blob shapes once; the HUD re-renders as the score ticks up.
+  const radii = useMemo(() => [...Array(maxCount)].map(organicRadius), [maxCount]);
+
   return (
-    <div className="flex flex-wrap gap-1">
+    <motion.div
+      key={feedback?.id}
+      className="relative flex flex-wrap gap-1"
+      role={onUse ? 'button' : undefined}
+      onClick={onUse}
+      animate={feedback ? { x: [0, -6, 6, -4, 4, 0] } : undefined}
+      transition={{ duration: 0.4 }}
+      style={{ opacity: cooldown > 0 ? 0.6 : 1, cursor: onUse ? 'pointer' : undefined }}
+    >
       {[...Array(maxCount)].map((_, i) => {
         const isActive = i < count;
-        const organicRadius = `${45 + Math.random() * 10}% ${55 + Math.random() * 10}% ${50 + Math.random() * 10}% ${50 + Math.random() * 10}% / ${50 + Math.random() * 10}% ${50 + Math.random() * 10}% ${45 + Math.random() * 10}% ${55 + Math.random() * 10}%`;
-        
+        const organicRadius = radii[i];
+
         return (
           <motion.div
             key={i}
@@ -62,17 +240,131 @@ function ItemCount({ icon: Icon, count, maxCount, color }: ItemCountProps) {
           </motion.div>
         );
       })}
-    </div>
+
+      {/* Anything beyond the pips, e.g. after a chest's pack */}
+      {count > maxCount && (
+        <span className="text-white drop-shadow-md" style={{ alignSelf: 'center', fontSize: 14 }}>
+          +{count - maxCount}
+        </span>
+      )}
+
+      {/* Cooldown bar */}
+      {cooldown > 0 && (
+        <div
+          className="pointer-events-none absolute left-0 right-0"
+          style={{ bottom: -5, height: 3, borderRadius: 2, background: 'rgba(255, 255, 255, 0.2)' }}
+        >
+          <div
+            style={{
+              width: `${cooldown * 100}%`,
+              height: '100%',
+              borderRadius: 'inherit',
+              background: 'rgba(255, 255, 255, 0.85)',
+            }}
+          />
+        </div>
+      )}
+
+      {/* No-target feedback */}
+      <AnimatePresence>
+        {feedback && (
+          <motion.span
+            className="pointer-events-none absolute text-white drop-shadow-md"
+            style={{ top: -18, left: '50%', fontSize: 12, whiteSpace: 'nowrap', translateX: '-50%' }}
+            initial={{ opacity: 0, y: 4 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0 }}
+          >
+            {feedback.message}
+          </motion.span>
+        )}
+      </AnimatePresence>
+    </motion.div>
   );
 }
 
-export function PlayScreen({ onPause }: PlayScreenProps) {
-  const [score] = useState(12450);
-  const [hearts] = useState(5);
-  const [honeyJars] = useState(4);
-  const [flySwatters] = useState(3);
-  const [lifeVests] = useState(6);
-  const [axes] = useState(2);
+export function PlayScreen({ mode = 'endless', daily, onPause, onGameOver }: PlayScreenProps) {
+  const [engine, setEngine] = useState<GameEngine | null>(null);
+  const [hud, setHud] = useState<HudState | null>(null);
+  const [feedback, setFeedback] = useState<{ item: WeaponType } & ItemFeedback | null>(null);
+  const [treasure, setTreasure] = useState<TreasureReward | null>(null);
+  const [summary, setSummary] = useState<RunSummary | null>(null);
+  const [raceStarted, setRaceStarted] = useState(false);
+  const score = hud?.score ?? 0;
+
+  useEffect(() => {
+    if (!engine) return;
+    setHud(engine.hud);
+    const offHud = engine.on('hud', setHud);
+    // The engine pauses itself while a chest's reward is on show.
+    const offTreasure = engine.on('treasureOpened', ({ reward }) => setTreasure(reward));
+    const offGameOver = engine.on('gameOver', setSummary);
+    const offRaceStart = engine.on('raceStart', () => setRaceStarted(true));
+    return () => {
+      offHud();
+      offTreasure();
+      offGameOver();
+      offRaceStart();
+    };
+  }, [engine]);
+
+  useEffect(() => {
+    if (!summary) return;
+    const timeout = setTimeout(() => onGameOver(summary), GAME_OVER_DELAY);
+    return () => clearTimeout(timeout);
+  }, [summary, onGameOver]);
+
+  useEffect(() => {
+    if (!raceStarted) return;
+    const timeout = setTimeout(() => setRaceStarted(false), RACE_START_DURATION);
+    return () => clearTimeout(timeout);
+  }, [raceStarted]);
+
+  const closeTreasure = () => {
+    setTreasure(null);
+    engine?.start();
+  };
+
+  useEffect(() => {
+    if (!feedback) return;
+    const timeout = setTimeout(() => setFeedback(null), FEEDBACK_DURATION);
+    return () => clearTimeout(timeout);
+  }, [feedback]);
+
+  // The background is random but must not reshuffle every time the HUD updates.
+  const blobs = useMemo(
+    () =>
+      [...Array(8)].map(() => ({
+        borderRadius: `${40 + Math.random() * 20}% ${60 + Math.random() * 20}% ${50 + Math.random() * 15}% ${50 + Math.random() * 15}% / ${50 + Math.random() * 15}% ${50 + Math.random() * 15}% ${40 + Math.random() * 20}% ${60 + Math.random() * 20}%`,
+        width: Math.random() * 120 + 40,
+        height: Math.random() * 120 + 40,
+        left: `${Math.random() * 100}%`,
+        top: `${Math.random() * 100}%`,
+        driftX: Math.random() * 20 - 10,
+        duration: Math.random() * 4 + 3,
+        delay: Math.random() * 2,
+      })),
+    [],
+  );
+
+  const handleUseItem = (item: WeaponType) => {
+    if (!engine) return;
+    const result = engine.useItem(item);
+    if (result !== 'used') setFeedback({ item, id: Date.now(), message: USE_FEEDBACK[result] });
+  };
+
+  // Props shared by every item row. Weapons are used by tapping them; vests
+  // go off by themselves when the frog falls in.
+  const itemProps = (item: ItemType) => ({
+    count: hud?.items[item].count ?? 0,
+    maxCount: MAX_ITEM_COUNT,
+    cooldown: hud?.items[item].cooldown ?? 0,
+  });
+  const weaponProps = (item: WeaponType) => ({
+    ...itemProps(item),
+    feedback: feedback?.item === item ? feedback : null,
+    onUse: () => handleUseItem(item),
+  });
 
   return (
     <div className="relative h-screen w-full overflow-hidden bg-gradient-to-br from-emerald-600 via-teal-500 to-cyan-400">
@@ -86,33 +378,30 @@ export function PlayScreen({ onPause }: PlayScreenProps) {
 
       {/* Animated background elements */}
       <div className="absolute inset-0">
-        {[...Array(8)].map((_, i) => {
-          const organicRadius = `${40 + Math.random() * 20}% ${60 + Math.random() * 20}% ${50 + Math.random() * 15}% ${50 + Math.random() * 15}% / ${50 + Math.random() * 15}% ${50 + Math.random() * 15}% ${40 + Math.random() * 20}% ${60 + Math.random() * 20}%`;
-          return (
-            <motion.div
-              key={i}
-              className="absolute bg-lime-300/10"
-              style={{
-                width: Math.random() * 120 + 40,
-                height: Math.random() * 120 + 40,
-                left: `${Math.random() * 100}%`,
-                top: `${Math.random() * 100}%`,
-                borderRadius: organicRadius,
-                filter: 'blur(12px)',
-              }}
-              animate={{
-                y: [0, -40, 0],
-                x: [0, Math.random() * 20 - 10, 0],
-                opacity: [0.1, 0.3, 0.1],
-              }}
-              transition={{
-                duration: Math.random() * 4 + 3,
-                repeat: Infinity,
-                delay: Math.random() * 2,
-              }}
-            />
-          );
-        })}
+        {blobs.map((blob, i) => (
+          <motion.div
+            key={i}
+            className="absolute bg-lime-300/10"
+            style={{
+              width: blob.width,
+              height: blob.height,
+              left: blob.left,
+              top: blob.top,
+              borderRadius: blob.borderRadius,
+              filter: 'blur(12px)',
+            }}
+            animate={{
+              y: [0, -40, 0],
+              x: [0, blob.driftX, 0],
+              opacity: [0.1, 0.3, 0.1],
+            }}
+            transition={{
+              duration: blob.duration,
+              repeat: Infinity,
+              delay: blob.delay,
+            }}
+          />
+        ))}
       </div>
 
       {/* Top HUD */}
@@ -154,6 +443,17 @@ export function PlayScreen({ onPause }: PlayScreenProps) {
               </motion.p>
             </div>
           </div>
+
+          {/* Daily challenge clock and the way left to the finish */}
+          {hud?.daily && (
+            <p className="text-white drop-shadow-md" style={{ marginTop: 8, fontSize: 14, whiteSpace: 'nowrap' }}>
+              ⏱ {Math.floor(hud.daily.time / 60)}:{String(hud.daily.time % 60).padStart(2, '0')} · {hud.daily.distanceLeft.toLocaleString()}m to go
+            </p>
+          )}
+
+          <AnimatePresence>
+            {hud && hud.combo.count > 0 && <ComboMeter {...hud.combo} />}
+          </AnimatePresence>
         </motion.div>
 
         {/* Pause Button - Top Right */}
@@ -173,15 +473,107 @@ export function PlayScreen({ onPause }: PlayScreenProps) {
 
       {/* Main Game Area */}
       <div className="relative z-10 flex h-[calc(100vh-280px)] items-center justify-center sm:h-[calc(100vh-320px)]">
-        <motion.div
-          className="text-white/60 text-center px-4"
-          animate={{ opacity: [0.3, 0.6, 0.3] }}
-          transition={{ duration: 2, repeat: Infinity }}
-        >
-          <p className="drop-shadow-md">Game area - Frog jumps here!</p>
-        </motion.div>
+        <GameCanvas mode={mode} daily={daily} onEngine={setEngine} />
+
+        {hud?.race && <RaceTrack frog={hud.race.frog} boat={hud.race.boat} />}
+
+        {/* Race countdown, then the start */}
+        <AnimatePresence>
+          {(!!hud?.race?.countdown || raceStarted) && (
+            <motion.div
+              key={hud?.race?.countdown || 'go'}
+              className="pointer-events-none absolute text-white drop-shadow-lg"
+              style={{ fontSize: 72 }}
+              initial={{ scale: 2, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              exit={{ scale: 0.5, opacity: 0 }}
+              transition={{ type: 'spring', stiffness: 200, damping: 14 }}
+            >
+              {hud?.race?.countdown || 'GO!'}
+            </motion.div>
+          )}
+        </AnimatePresence>
+
+        {/* Rocket ride - tap to come down early; once the flight is over it's the only way down */}
+        <AnimatePresence>
+          {hud?.rocket && hud.rocket.state !== 'descending' && (
+            <motion.div
+              className="absolute"
+              style={{ top: 12, left: '50%' }}
+              initial={{ x: '-50%', y: -40, opacity: 0 }}
+              animate={{
+                x: '-50%',
+                y: 0,
+                opacity: 1,
+                scale: hud.rocket.state === 'landing' ? [1, 1.1, 1] : 1,
+              }}
+              exit={{ x: '-50%', y: -40, opacity: 0 }}
+              transition={{ scale: { duration: 0.6, repeat: Infinity } }}
+            >
+              <FeltButton
+                icon={Rocket}
+                onClick={() => engine?.descendRocket()}
+                variant={hud.rocket.state === 'landing' ? 'primary' : 'secondary'}
+                iconClassName="h-5 w-5 sm:h-6 sm:w-6"
+              >
+                <span style={{ whiteSpace: 'nowrap' }}>
+                  {hud.rocket.state === 'landing' ? `⚠ Descend ${hud.rocket.timeLeft}s` : `${hud.rocket.timeLeft}s`}
+                </span>
+              </FeltButton>
+            </motion.div>
+          )}
+        </AnimatePresence>
+
+        {/* Drowning - the frog loses another heart when the countdown runs out */}
+        <AnimatePresence>
+          {!!hud?.drowning && (
+            <motion.div
+              className="pointer-events-none absolute bg-gradient-to-br from-red-500 to-rose-600 text-white drop-shadow-lg"
+              style={{
+                bottom: 24,
+                left: '50%',
+                padding: '6px 16px',
+                fontSize: 20,
+                borderRadius: '46% 54% 48% 52% / 52% 48% 52% 48%',
+                border: '3px solid rgba(255, 255, 255, 0.6)',
+              }}
+              initial={{ x: '-50%', opacity: 0, scale: 0.5 }}
+              animate={{ x: '-50%', opacity: [1, 0.7, 1], scale: 1 }}
+              exit={{ x: '-50%', opacity: 0, scale: 0.5 }}
+              transition={{ opacity: { duration: 0.6, repeat: Infinity } }}
+            >
+              JUMP! {hud.drowning}
+            </motion.div>
+          )}
+        </AnimatePresence>
+
+        {/* Abilities - unlocked ones, with countdowns while their buffs run */}
+        <div className="absolute flex flex-col gap-1" style={{ top: 12, right: 12 }}>
+          {ABILITY_TYPES.map((ability) => {
+            const buff = BUFF_FOR_ABILITY[ability];
+            const count = hud?.abilities[ability] ?? 0;
+            const timeLeft = buff ? hud?.buffs[buff] ?? 0 : 0;
+            const armed = ability === 'cannonJump' && !!hud?.cannonArmed;
+            if (count <= 0 && timeLeft <= 0 && !armed) return null;
+            return (
+              <AbilityButton
+                key={ability}
+                ability={ability}
+                count={count}
+                timeLeft={timeLeft}
+                armed={armed}
+                onUse={() => engine?.useAbility(ability)}
+              />
+            );
+          })}
+        </div>
       </div>
 
+      {/* Treasure chest reward */}
+      <AnimatePresence>
+        {treasure && <TreasurePopup reward={treasure} onClose={closeTreasure} />}
+      </AnimatePresence>
+
       {/* Bottom HUD */}
       <motion.div
         className="absolute bottom-0 left-0 right-0 z-20 p-3 sm:p-4"
@@ -212,8 +604,8 @@ export function PlayScreen({ onPause }: PlayScreenProps) {
             <div className="flex justify-center">
               <ItemCount
                 icon={Heart}
-                count={hearts}
-                maxCount={6}
+                count={hud?.hearts.count ?? 0}
+                maxCount={hud?.hearts.max ?? 0}
                 color="bg-gradient-to-br from-red-500 to-rose-600"
               />
             </div>
@@ -226,8 +618,7 @@ export function PlayScreen({ onPause }: PlayScreenProps) {
                 <div className="flex justify-center sm:justify-end">
                   <ItemCount
                     icon={Droplet}
-                    count={honeyJars}
-                    maxCount={4}
+                    {...weaponProps('honey')}
                     color="bg-gradient-to-br from-amber-500 to-yellow-600"
                   />
                 </div>
@@ -235,8 +626,7 @@ export function PlayScreen({ onPause }: PlayScreenProps) {
                 <div className="flex justify-center sm:justify-end">
                   <ItemCount
                     icon={Bug}
-                    count={flySwatters}
-                    maxCount={4}
+                    {...weaponProps('swatter')}
                     color="bg-gradient-to-br from-purple-500 to-violet-600"
                   />
                 </div>
@@ -248,8 +638,7 @@ export function PlayScreen({ onPause }: PlayScreenProps) {
                 <div className="flex justify-center sm:justify-start">
                   <ItemCount
                     icon={LifeBuoy}
-                    count={lifeVests}
-                    maxCount={4}
+                    {...itemProps('vest')}
                     color="bg-gradient-to-br from-blue-500 to-cyan-600"
                   />
                 </div>
@@ -257,13 +646,27 @@ export function PlayScreen({ onPause }: PlayScreenProps) {
                 <div className="flex justify-center sm:justify-start">
                   <ItemCount
                     icon={Axe}
-                    count={axes}
-                    maxCount={4}
+                    {...weaponProps('axe')}
                     color="bg-gradient-to-br from-slate-500 to-gray-600"
                   />
                 </div>
               </div>
             </div>
+
+            {/* Holy Crosses, and the scroll savers that go off by themselves */}
+            <div className="flex flex-wrap justify-center gap-3 sm:gap-4">
+              <ItemCount
+                icon={Cross}
+                {...itemProps('cross')}
+                color="bg-gradient-to-br from-blue-400 to-indigo-600"
+              />
+              <ItemCount
+                icon={ChevronsUp}
+                count={hud?.scrollSavers ?? 0}
+                maxCount={MAX_ITEM_COUNT}
+                color="bg-gradient-to-br from-lime-500 to-emerald-600"
+              />
+            </div>
           </div>
         </div>
       </motion.div>
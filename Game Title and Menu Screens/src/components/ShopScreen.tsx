@@ -0,0 +1,222 @@
+import { AnimatePresence, motion } from 'motion/react';
+import { ArrowLeft, Coins, ShoppingBag } from 'lucide-react';
+import { useState } from 'react';
+import { FeltButton } from './FeltButton';
+import { loadProfile } from '../game/profile';
+import { purchase, SHOP_ITEMS, SHOP_SECTIONS, ShopItem, ShopOffer, shopOffer, ShopSection } from '../game/shop';
+import { upgradeEffects, upgradeStats } from '../game/upgrades';
+
+interface ShopScreenProps {
+  onBack: () => void;
+}
+
+const feltTexture = `url("data:image/svg+xml,%3Csvg viewBox='0 0 400 400' xmlns='http://www.w3.org/2000/svg'%3E%3Cfilter id='noiseFilter'%3E%3CfeTurbulence type='fractalNoise' baseFrequency='0.9' numOctaves='4' stitchTiles='stitch'/%3E%3C/filter%3E%3Crect width='100%25' height='100%25' filter='url(%23noiseFilter)'/%3E%3C/svg%3E")`;
+
+const ITEMS = Object.keys(SHOP_ITEMS) as ShopItem[];
+
+// Filled and empty pips for a levelled upgrade.
+function LevelPips({ level, maxLevel }: { level: number; maxLevel: number }) {
+  return (
+    <div className="flex items-center gap-1">
+      {Array.from({ length: maxLevel }, (_, i) => (
+        <div
+          key={i}
+          style={{
+            width: 10,
+            height: 10,
+            borderRadius: '50%',
+            border: '2px solid rgba(255, 255, 255, 0.6)',
+            background: i < level ? 'rgb(253, 224, 71)' : 'transparent',
+          }}
+        />
+      ))}
+    </div>
+  );
+}
+
+function offerLabel(offer: ShopOffer) {
+  if (offer.state === 'owned') return 'OWNED';
+  if (offer.state === 'maxed') return 'MAXED';
+  return `${offer.cost.toLocaleString()} coins`;
+}
+
+// The frog shop, after ShopViewController: permanent upgrades, unlocks for
+// the in-run upgrade picks and packs of items, each bought after a
+// confirmation. What the upgrades bought so far add up to is shown above them.
+export function ShopScreen({ onBack }: ShopScreenProps) {
+  const [profile, setProfile] = useState(loadProfile);
+  const [confirming, setConfirming] = useState<ShopItem | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleConfirm = () => {
+    if (!confirming) return;
+    const result = purchase(confirming);
+    if (result === 'purchased') setMessage(`Bought ${SHOP_ITEMS[confirming].title}!`);
+    else if (result === 'tooExpensive') setMessage('Not enough coins.');
+    else setMessage(null);
+    setProfile(loadProfile());
+    setConfirming(null);
+  };
+
+  return (
+    <div className="relative h-screen w-full overflow-hidden bg-gradient-to-br from-teal-900 via-emerald-900 to-cyan-900">
+      {/* Paper/canvas texture overlay */}
+      <div
+        className="absolute inset-0 opacity-10"
+        style={{
+          backgroundImage: `url("data:image/svg+xml,%3Csvg viewBox='0 0 400 400' xmlns='http://www.w3.org/2000/svg'%3E%3Cfilter id='noiseFilter'%3E%3CfeTurbulence type='fractalNoise' baseFrequency='0.65' numOctaves='3' stitchTiles='stitch'/%3E%3C/filter%3E%3Crect width='100%25' height='100%25' filter='url(%23noiseFilter)'/%3E%3C/svg%3E")`,
+        }}
+      />
+
+      <div className="relative z-10 flex h-full flex-col items-center justify-center gap-4 p-4 sm:gap-6 sm:p-8">
+        {/* Title badge */}
+        <motion.div
+          initial={{ y: -50, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+          transition={{ type: 'spring', stiffness: 100 }}
+          style={{ filter: 'drop-shadow(0 6px 12px rgba(0, 0, 0, 0.3))' }}
+        >
+          <div
+            className="relative bg-gradient-to-br from-amber-500 to-orange-600 px-8 py-4 sm:px-12 sm:py-5"
+            style={{
+              borderRadius: '45% 55% 52% 48% / 48% 52% 48% 52%',
+              border: '3px solid rgba(255, 255, 255, 0.3)',
+            }}
+          >
+            <div
+              className="absolute inset-0 opacity-20"
+              style={{ backgroundImage: feltTexture, borderRadius: 'inherit', mixBlendMode: 'overlay' }}
+            />
+            <h2 className="relative z-10 text-white text-center drop-shadow-md">FROG SHOP</h2>
+          </div>
+        </motion.div>
+        <p className="flex items-center gap-1 text-white" style={{ color: 'rgb(253, 224, 71)' }}>
+          <Coins className="h-4 w-4" />
+          {profile.coins.toLocaleString()}
+        </p>
+        {message && <p className="text-white/80 text-center">{message}</p>}
+
+        {/* Shop cards, by section */}
+        <div className="flex w-full max-w-md flex-col gap-3" style={{ maxHeight: '60vh', overflowY: 'auto' }}>
+          <div
+            className="relative flex flex-col gap-1 bg-gradient-to-br from-amber-500 to-orange-600 p-3 text-white"
+            style={{ borderRadius: 16, border: '3px solid rgba(255, 255, 255, 0.3)', fontSize: 14 }}
+          >
+            <div
+              className="absolute inset-0 opacity-20"
+              style={{ backgroundImage: feltTexture, borderRadius: 'inherit', mixBlendMode: 'overlay' }}
+            />
+            <p className="relative z-10" style={{ fontSize: 16 }}>
+              YOUR FROG
+            </p>
+            {upgradeStats(upgradeEffects(profile)).map(({ label, value }) => (
+              <div key={label} className="relative z-10 flex items-center justify-between gap-3">
+                <span className="text-white/80">{label}</span>
+                <span>{value}</span>
+              </div>
+            ))}
+          </div>
+          {(Object.keys(SHOP_SECTIONS) as ShopSection[]).map((section) => (
+            <div key={section} className="flex flex-col gap-3">
+              <p className="text-white/60">{SHOP_SECTIONS[section].toUpperCase()}</p>
+              {ITEMS.filter((item) => SHOP_ITEMS[item].section === section).map((item) => {
+                const spec = SHOP_ITEMS[item];
+                const offer = shopOffer(item, profile);
+                const affordable = offer.state === 'available' && profile.coins >= offer.cost;
+                return (
+                  <motion.div
+                    key={item}
+                    className="relative flex items-center justify-between gap-3 bg-gradient-to-br from-teal-600 to-emerald-700 p-3"
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: offer.state === 'available' ? 1 : 0.6, y: 0 }}
+                    style={{ borderRadius: 16, border: '3px solid rgba(255, 255, 255, 0.3)' }}
+                  >
+                    <div
+                      className="absolute inset-0 opacity-20"
+                      style={{ backgroundImage: feltTexture, borderRadius: 'inherit', mixBlendMode: 'overlay' }}
+                    />
+                    <div className="relative z-10 flex flex-col gap-1 text-white">
+                      <span>
+                        {spec.title}
+                        {spec.type === 'level' && ` (Lvl ${offer.level})`}
+                      </span>
+                      <span className="text-white/80" style={{ fontSize: 14 }}>
+                        {spec.description}
+                        {spec.type === 'pack' && ` · You have ${offer.level}`}
+                      </span>
+                      {spec.type === 'level' && offer.maxLevel !== null && (
+                        <LevelPips level={offer.level} maxLevel={offer.maxLevel} />
+                      )}
+                      <span style={{ fontSize: 14, color: 'rgb(253, 224, 71)' }}>{offerLabel(offer)}</span>
+                    </div>
+                    {affordable && (
+                      <div className="relative z-10">
+                        <FeltButton
+                          icon={ShoppingBag}
+                          onClick={() => setConfirming(item)}
+                          variant="secondary"
+                          iconClassName="h-4 w-4"
+                          gradientColor="from-amber-500 to-orange-600"
+                        >
+                          {spec.type === 'pack' ? 'Buy' : spec.type === 'unlock' ? 'Unlock' : 'Upgrade'}
+                        </FeltButton>
+                      </div>
+                    )}
+                  </motion.div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+
+        <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} transition={{ delay: 0.3 }}>
+          <FeltButton icon={ArrowLeft} onClick={onBack} variant="secondary" iconClassName="h-6 w-6">
+            Back
+          </FeltButton>
+        </motion.div>
+      </div>
+
+      {/* Purchase confirmation */}
+      <AnimatePresence>
+        {confirming && (
+          <motion.div
+            className="absolute inset-0 flex items-center justify-center p-4"
+            style={{ zIndex: 30, background: 'rgba(0, 0, 0, 0.55)' }}
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+          >
+            <motion.div
+              className="relative flex flex-col items-center gap-4 bg-gradient-to-br from-amber-500 to-orange-600 p-4 sm:p-8"
+              initial={{ scale: 0.5, rotate: -8 }}
+              animate={{ scale: 1, rotate: 0 }}
+              exit={{ scale: 0.5, opacity: 0 }}
+              transition={{ type: 'spring', stiffness: 200, damping: 14 }}
+              style={{
+                maxWidth: 360,
+                width: '100%',
+                borderRadius: '46% 54% 48% 52% / 52% 48% 52% 48%',
+                border: '3px solid rgba(255, 255, 255, 0.4)',
+                filter: 'drop-shadow(0 12px 24px rgba(0, 0, 0, 0.4))',
+              }}
+            >
+              <div
+                className="absolute inset-0 opacity-20"
+                style={{ backgroundImage: feltTexture, borderRadius: 'inherit', mixBlendMode: 'overlay' }}
+              />
+              <p className="relative z-10 text-white text-center drop-shadow-lg">
+                Buy {SHOP_ITEMS[confirming].title} for {shopOffer(confirming, profile).cost.toLocaleString()} coins?
+              </p>
+              <div className="relative z-10 flex flex-wrap items-center justify-center gap-3">
+                <FeltButton onClick={handleConfirm}>Buy</FeltButton>
+                <FeltButton onClick={() => setConfirming(null)} variant="secondary">
+                  Cancel
+                </FeltButton>
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
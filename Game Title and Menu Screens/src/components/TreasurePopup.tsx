@@ -0,0 +1,83 @@
+import { motion } from 'motion/react';
+import { Gift } from 'lucide-react';
+import { FeltButton } from './FeltButton';
+import { spriteUrl } from '../game/sprites';
+import { TREASURE_REWARDS, TreasureReward } from '../game/treasure';
+
+interface TreasurePopupProps {
+  reward: TreasureReward;
+  onClose: () => void;
+}
+
+// Shown over the paused game when the frog opens a treasure chest.
+export function TreasurePopup({ reward, onClose }: TreasurePopupProps) {
+  const { displayName, icon } = TREASURE_REWARDS[reward];
+  const backdrop = spriteUrl('treasureBackdrop');
+  const chest = spriteUrl('treasureChest');
+
+  return (
+    <motion.div
+      className="absolute inset-0 flex items-center justify-center p-4"
+      style={{ zIndex: 30, background: 'rgba(0, 0, 0, 0.55)' }}
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+    >
+      <motion.div
+        className="relative flex flex-col items-center gap-4 overflow-hidden bg-gradient-to-br from-amber-500 to-orange-600 p-4 sm:p-8"
+        initial={{ scale: 0.5, rotate: -8 }}
+        animate={{ scale: 1, rotate: 0 }}
+        exit={{ scale: 0.5, opacity: 0 }}
+        transition={{ type: 'spring', stiffness: 200, damping: 14 }}
+        style={{
+          maxWidth: 360,
+          width: '100%',
+          borderRadius: '46% 54% 48% 52% / 52% 48% 52% 48%',
+          border: '3px solid rgba(255, 255, 255, 0.4)',
+          filter: 'drop-shadow(0 12px 24px rgba(0, 0, 0, 0.4))',
+          backgroundImage: backdrop ? `url("${backdrop}")` : undefined,
+          backgroundSize: 'cover',
+          backgroundPosition: 'center',
+        }}
+      >
+        {/* Felt texture overlay */}
+        <div
+          className="absolute inset-0 opacity-20"
+          style={{
+            backgroundImage: `url("data:image/svg+xml,%3Csvg viewBox='0 0 400 400' xmlns='http://www.w3.org/2000/svg'%3E%3Cfilter id='noiseFilter'%3E%3CfeTurbulence type='fractalNoise' baseFrequency='0.9' numOctaves='4' stitchTiles='stitch'/%3E%3C/filter%3E%3Crect width='100%25' height='100%25' filter='url(%23noiseFilter)'/%3E%3C/svg%3E")`,
+            mixBlendMode: 'overlay',
+          }}
+        />
+
+        <p className="relative z-10 text-white drop-shadow-lg">Treasure!</p>
+
+        {chest ? (
+          <motion.img
+            src={chest}
+            alt=""
+            className="relative z-10"
+            style={{ width: 96, height: 96, objectFit: 'contain' }}
+            animate={{ rotate: [0, -6, 6, -3, 3, 0], scale: [1, 1.1, 1] }}
+            transition={{ duration: 0.8, delay: 0.2 }}
+          />
+        ) : (
+          <Gift className="relative z-10 h-12 w-12 text-white" />
+        )}
+
+        <motion.p
+          className="relative z-10 text-white drop-shadow-lg"
+          style={{ fontSize: 24 }}
+          initial={{ y: 10, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+          transition={{ delay: 0.4 }}
+        >
+          {icon} {displayName}
+        </motion.p>
+
+        <div className="relative z-10">
+          <FeltButton onClick={onClose}>Collect</FeltButton>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { activateBuff, buffDuration, createBuffs, isBuffActive, startingAbilities, updateBuffs } from './buffs';
+import { Configuration } from './config';
+
+const { GameRules } = Configuration;
+
+describe('timed buffs', () => {
+  it('start off', () => {
+    const buffs = createBuffs();
+    expect(isBuffActive(buffs, 'superJump')).toBe(false);
+    expect(isBuffActive(buffs, 'boots')).toBe(false);
+  });
+
+  it('run down and report the step they wear off on', () => {
+    const buffs = createBuffs();
+    activateBuff(buffs, 'boots', 1);
+    expect(updateBuffs(buffs, 0.6)).toEqual([]);
+    expect(isBuffActive(buffs, 'boots')).toBe(true);
+    expect(updateBuffs(buffs, 0.6)).toEqual(['boots']);
+    expect(buffs.boots).toBe(0);
+    expect(updateBuffs(buffs, 0.6)).toEqual([]);
+  });
+
+  it('add a second activation to the time left', () => {
+    const buffs = createBuffs();
+    activateBuff(buffs, 'superJump', 10);
+    updateBuffs(buffs, 4);
+    activateBuff(buffs, 'superJump', 10);
+    expect(buffs.superJump).toBe(16);
+  });
+
+  it('keep their own timers', () => {
+    const buffs = createBuffs();
+    activateBuff(buffs, 'superJump', 2);
+    activateBuff(buffs, 'boots', 1);
+    expect(updateBuffs(buffs, 1)).toEqual(['boots']);
+    expect(buffs.superJump).toBe(1);
+  });
+});
+
+describe('buffDuration', () => {
+  it('uses the configured durations', () => {
+    expect(buffDuration('superJump', {})).toBe(GameRules.superJumpDuration);
+    expect(buffDuration('boots', {})).toBe(GameRules.bootsDuration);
+  });
+
+  it('doubles the super jump once that upgrade is unlocked', () => {
+    expect(buffDuration('superJump', { doubleSuperJumpTime: true })).toBe(GameRules.superJumpDuration * 2);
+  });
+});
+
+describe('startingAbilities', () => {
+  it('gives only the boots before the abilities are unlocked', () => {
+    expect(startingAbilities({})).toEqual({ superJump: 0, cannonJump: 0, boots: GameRules.bootsPerRun, rocket: 0 });
+  });
+
+  it('gives the per-run uses of each unlocked ability', () => {
+    expect(startingAbilities({ superJump: true, cannonJump: true, rocket: true })).toEqual({
+      superJump: GameRules.superJumpsPerRun,
+      cannonJump: GameRules.cannonJumpsPerRun,
+      boots: GameRules.bootsPerRun,
+      rocket: GameRules.rocketsPerRun,
+    });
+  });
+});
@@ -0,0 +1,63 @@
+// Abilities and the timed buffs they grant, after Frog.Buffs and the power-up
+// handling in GameScene on iOS. A super jump doubles every jump for a while,
+// rain boots keep the frog from sliding on rain and ice, a cannon jump smashes
+// through whatever it meets and clears the screen where it lands, and a rocket
+// takes the frog for a ride (see rocket.ts).
+
+import { Configuration } from './config';
+import type { Unlocks } from './profile';
+
+/** Buffs that wear off after a while. */
+export type TimedBuff = 'superJump' | 'boots';
+
+export const TIMED_BUFFS: readonly TimedBuff[] = ['superJump', 'boots'];
+
+/** Seconds left on each timed buff; 0 while it's off. */
+export type TimedBuffs = Record<TimedBuff, number>;
+
+/** Abilities the player can set off during a run, once unlocked. */
+export type Ability = 'superJump' | 'cannonJump' | 'boots' | 'rocket';
+
+export const ABILITY_TYPES: readonly Ability[] = ['superJump', 'cannonJump', 'boots', 'rocket'];
+
+export function createBuffs(): TimedBuffs {
+  return { superJump: 0, boots: 0 };
+}
+
+/** Uses of each ability the frog starts a run with; boots come with every run, the rest once unlocked. */
+export function startingAbilities(unlocks: Partial<Unlocks>): Record<Ability, number> {
+  const { GameRules } = Configuration;
+  return {
+    superJump: unlocks.superJump ? GameRules.superJumpsPerRun : 0,
+    cannonJump: unlocks.cannonJump ? GameRules.cannonJumpsPerRun : 0,
+    boots: GameRules.bootsPerRun,
+    rocket: unlocks.rocket ? GameRules.rocketsPerRun : 0,
+  };
+}
+
+/** How long `buff` lasts, with any upgrade that stretches it. */
+export function buffDuration(buff: TimedBuff, unlocks: Partial<Unlocks>) {
+  const { GameRules } = Configuration;
+  if (buff === 'boots') return GameRules.bootsDuration;
+  return GameRules.superJumpDuration * (unlocks.doubleSuperJumpTime ? 2 : 1);
+}
+
+/** Turns `buff` on; if it's already on, the new time is added to what's left. */
+export function activateBuff(buffs: TimedBuffs, buff: TimedBuff, duration: number) {
+  buffs[buff] += duration;
+}
+
+export function isBuffActive(buffs: TimedBuffs, buff: TimedBuff) {
+  return buffs[buff] > 0;
+}
+
+/** Runs the buff timers down; returns the buffs that wore off this step. */
+export function updateBuffs(buffs: TimedBuffs, dt: number): TimedBuff[] {
+  const expired: TimedBuff[] = [];
+  for (const buff of TIMED_BUFFS) {
+    if (buffs[buff] <= 0) continue;
+    buffs[buff] = Math.max(0, buffs[buff] - dt);
+    if (buffs[buff] === 0) expired.push(buff);
+  }
+  return expired;
+}
@@ -0,0 +1,35 @@
+// Camera movement, from GameScene.updateCamera on iOS and the auto-scroll of
+// the original StuntFrogRunner. The camera leads the frog up the river but
+// also creeps forward on its own, faster as the score grows, so a frog that
+// dawdles eventually drops off the bottom of the screen.
+
+import { Camera, Frog } from './types';
+
+// The camera aims this share of a screen ahead of the frog.
+const LOOKAHEAD = 0.2;
+const FOLLOW_LERP = 0.1;
+// Auto-scroll per step: 0.6 at the start, 0.1 faster every 2000 score, at most 1.5.
+const BASE_SCROLL_SPEED = 0.6;
+const SCROLL_SPEED_PER_SCORE = 0.1 / 2000;
+const MAX_SCROLL_SPEED = 1.5;
+// Slack below the bottom edge before the frog counts as gone.
+const EXIT_MARGIN = 40;
+
+export function autoScrollSpeed(score: number) {
+  return Math.min(MAX_SCROLL_SPEED, BASE_SCROLL_SPEED + score * SCROLL_SPEED_PER_SCORE);
+}
+
+/** Eases the camera toward a point ahead of the frog, never slower than the auto-scroll. */
+export function updateCamera(camera: Camera, frog: Frog, viewHeight: number, score: number) {
+  camera.prevX = camera.x;
+  camera.prevY = camera.y;
+  camera.x += (frog.x - camera.x) * FOLLOW_LERP;
+  const followY = camera.y + (frog.y + viewHeight * LOOKAHEAD - camera.y) * FOLLOW_LERP;
+  // The river only ever scrolls forward.
+  camera.y = Math.max(followY, camera.y + autoScrollSpeed(score));
+}
+
+/** Whether the frog has fallen behind the bottom of the screen. */
+export function isBelowView(camera: Camera, frog: Frog, viewHeight: number) {
+  return frog.y < camera.y - viewHeight / 2 - EXIT_MARGIN;
+}
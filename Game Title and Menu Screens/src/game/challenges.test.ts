@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { ChallengeTracker, claimChallenge } from './challenges';
+import type { GameEngine, GameEvents, RunSummary } from './engine';
+import { Emitter } from './events';
+import { loadProfile, updateProfile } from './profile';
+import { withMemoryStorage } from './testing';
+import { Pad } from './types';
+
+withMemoryStorage();
+
+// Stands in for the engine: the tracker only ever subscribes to its events.
+function fakeEngine() {
+  const events = new Emitter<GameEvents>();
+  const engine = { on: events.on.bind(events) } as unknown as GameEngine;
+  return { engine, events };
+}
+
+const pad = {} as Pad;
+
+function summary(distance: number): RunSummary {
+  return {
+    mode: 'endless',
+    reason: 'drowned',
+    race: null,
+    daily: null,
+    score: distance,
+    distance,
+    distanceByBiome: {},
+    coins: 0,
+    bestCombo: 0,
+  };
+}
+
+describe('ChallengeTracker', () => {
+  it('records a finished run, completing the challenges it reached', () => {
+    const { engine, events } = fakeEngine();
+    const tracker = new ChallengeTracker(engine);
+    for (let i = 0; i < 3; i++) events.emit('land', { pad });
+    events.emit('fallIntoWater', { x: 0, y: 0, savedByVest: false });
+    events.emit('land', { pad });
+    events.emit('collect', { coins: 7 } as GameEvents['collect']);
+    events.emit('rocket', { state: 'flying' });
+    events.emit('rocket', { state: 'descending' });
+    events.emit('gameOver', summary(1200));
+    tracker.stop();
+
+    const { challengeStats: stats, challenges } = loadProfile();
+    expect(stats.gamesPlayed).toBe(1);
+    expect(stats.totalDistance).toBe(1200);
+    expect(stats.bestPadsInRun).toBe(4);
+    expect(stats.bestConsecutiveJumps).toBe(3);
+    expect(stats.totalCoins).toBe(7);
+    expect(stats.rocketsUsed).toBe(1);
+    expect(challenges).toEqual({
+      distance_100: { completed: true, claimed: false },
+      distance_500: { completed: true, claimed: false },
+    });
+  });
+
+  it('counts a run left part-way without it being a game played', () => {
+    const { engine, events } = fakeEngine();
+    const tracker = new ChallengeTracker(engine);
+    events.emit('land', { pad });
+    tracker.stop();
+
+    const stats = loadProfile().challengeStats;
+    expect(stats.gamesPlayed).toBe(0);
+    expect(stats.totalDistance).toBe(0);
+    expect(stats.bestPadsInRun).toBe(1);
+  });
+
+  it('stops listening once stopped', () => {
+    const { engine, events } = fakeEngine();
+    new ChallengeTracker(engine).stop();
+    events.emit('land', { pad });
+    events.emit('gameOver', summary(500));
+    expect(loadProfile().challengeStats.bestPadsInRun).toBe(0);
+    expect(loadProfile().challengeStats.gamesPlayed).toBe(0);
+  });
+});
+
+describe('claimChallenge', () => {
+  it('pays a completed challenge out once', () => {
+    updateProfile((profile) => {
+      profile.challenges = { rocket_5: { completed: true, claimed: false } };
+    });
+    expect(claimChallenge('rocket_5').coins).toBe(100);
+    expect(claimChallenge('rocket_5').coins).toBe(100);
+    expect(loadProfile().challenges.rocket_5).toEqual({ completed: true, claimed: true });
+  });
+
+  it('pays nothing for a challenge not completed yet', () => {
+    expect(claimChallenge('rocket_5').coins).toBe(0);
+  });
+});
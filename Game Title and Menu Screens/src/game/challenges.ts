@@ -0,0 +1,291 @@
+// Challenges, after ChallengeManager.swift on iOS. Lifetime stats build up
+// run by run, each challenge completes once its stat reaches the requirement,
+// and a completed challenge's reward is claimed by hand from the Challenges
+// screen. iOS calls into the manager from all over GameScene; here a
+// `ChallengeTracker` listens to the engine's events instead and writes the
+// run to the profile once, when it ends. Scores on iOS count metres, so the
+// score challenges go by distance rather than the combo-boosted score.
+
+import type { GameEngine, RunSummary } from './engine';
+import type { ItemType } from './items';
+import { Profile, updateProfile } from './profile';
+
+export type ChallengeType =
+  | 'totalScore'
+  | 'singleRunScore'
+  | 'totalCoins'
+  | 'coinsInRun'
+  | 'enemiesDefeated'
+  | 'gamesPlayed'
+  | 'useRocket'
+  | 'surviveWeather'
+  | 'landOnPads'
+  | 'consecutiveJumps'
+  | 'crocodileRides'
+  | 'winningStreak'
+  | 'comboStreak';
+
+/** What a challenge pays out: coins, an item for the next run, or an extra heart for good. */
+export type ChallengeReward =
+  | { type: 'coins'; amount: number }
+  | { type: 'upgrade'; item: ItemType }
+  | { type: 'permanentHealth' };
+
+export interface Challenge {
+  id: string;
+  title: string;
+  description: string;
+  /** Value of the challenge's stat that completes it. */
+  requirement: number;
+  type: ChallengeType;
+  reward: ChallengeReward;
+}
+
+/** Lifetime totals and bests the challenges are measured against. */
+export interface ChallengeStats {
+  totalDistance: number;
+  bestDistance: number;
+  totalCoins: number;
+  bestCoinsInRun: number;
+  enemiesDefeated: number;
+  gamesPlayed: number;
+  rocketsUsed: number;
+  weathersSurvived: number;
+  bestPadsInRun: number;
+  bestConsecutiveJumps: number;
+  crocodileRides: number;
+  /** Races won in a row, back to 0 on a loss. */
+  winningStreak: number;
+  bestCombo: number;
+}
+
+/** Where the player stands on one challenge. */
+export interface ChallengeProgress {
+  completed: boolean;
+  claimed: boolean;
+}
+
+/** What a run did towards the challenges, gathered from its events. */
+export interface ChallengeRun {
+  coins: number;
+  enemiesDefeated: number;
+  rocketsUsed: number;
+  weathersSurvived: number;
+  padsLanded: number;
+  bestConsecutiveJumps: number;
+  crocodileRides: number;
+  bestCombo: number;
+}
+
+const STATS: Record<ChallengeType, keyof ChallengeStats> = {
+  totalScore: 'totalDistance',
+  singleRunScore: 'bestDistance',
+  totalCoins: 'totalCoins',
+  coinsInRun: 'bestCoinsInRun',
+  enemiesDefeated: 'enemiesDefeated',
+  gamesPlayed: 'gamesPlayed',
+  useRocket: 'rocketsUsed',
+  surviveWeather: 'weathersSurvived',
+  landOnPads: 'bestPadsInRun',
+  consecutiveJumps: 'bestConsecutiveJumps',
+  crocodileRides: 'crocodileRides',
+  winningStreak: 'winningStreak',
+  comboStreak: 'bestCombo',
+};
+
+const coins = (amount: number): ChallengeReward => ({ type: 'coins', amount });
+
+export const CHALLENGES: readonly Challenge[] = [
+  { id: 'distance_100', title: 'First Steps', description: 'Travel 200m in a single run', requirement: 200, type: 'singleRunScore', reward: coins(50) },
+  { id: 'distance_500', title: 'Getting There', description: 'Travel 1000m in a single run', requirement: 1000, type: 'singleRunScore', reward: coins(100) },
+  { id: 'distance_5000', title: 'Marathon Frog', description: 'Travel 5000m in a single run', requirement: 5000, type: 'singleRunScore', reward: coins(300) },
+  { id: 'distance_total_15000', title: 'World Traveler', description: 'Travel 15,000m total across all runs', requirement: 15000, type: 'totalScore', reward: coins(1500) },
+  { id: 'coins_collect_50', title: 'Coin Collector', description: 'Collect 50 coins total', requirement: 50, type: 'totalCoins', reward: coins(25) },
+  { id: 'coins_collect_200', title: 'Treasure Hunter', description: 'Collect 200 coins total', requirement: 200, type: 'totalCoins', reward: coins(100) },
+  { id: 'coins_run_20', title: 'Lucky Run', description: 'Collect 20 coins in a single run', requirement: 20, type: 'coinsInRun', reward: coins(75) },
+  { id: 'enemies_10', title: 'Bug Swatter', description: 'Defeat 10 enemies using items', requirement: 10, type: 'enemiesDefeated', reward: coins(100) },
+  { id: 'enemies_50', title: 'Exterminator', description: 'Defeat 50 enemies using items', requirement: 50, type: 'enemiesDefeated', reward: coins(250) },
+  { id: 'games_10', title: 'Regular Player', description: 'Play 10 games', requirement: 10, type: 'gamesPlayed', reward: coins(100) },
+  { id: 'games_50', title: 'Dedicated Frog', description: 'Play 50 games', requirement: 50, type: 'gamesPlayed', reward: { type: 'permanentHealth' } },
+  { id: 'rocket_5', title: 'Rocket Rider', description: 'Use rockets 5 times', requirement: 5, type: 'useRocket', reward: coins(100) },
+  { id: 'pads_50', title: 'Hopper', description: 'Land on 50 pads in a single run', requirement: 50, type: 'landOnPads', reward: coins(150) },
+  { id: 'consecutive_20', title: 'Perfect Balance', description: 'Make 20 consecutive jumps without falling', requirement: 20, type: 'consecutiveJumps', reward: coins(200) },
+  { id: 'croc_ride_1', title: 'Croc Surfer', description: 'Complete your first crocodile ride', requirement: 1, type: 'crocodileRides', reward: coins(100) },
+  { id: 'croc_ride_5', title: 'Reptile Wrangler', description: 'Complete 5 crocodile rides', requirement: 5, type: 'crocodileRides', reward: coins(250) },
+  { id: 'croc_ride_15', title: 'Crocodile Dundee', description: 'Complete 15 crocodile rides', requirement: 15, type: 'crocodileRides', reward: coins(500) },
+  { id: 'winning_streak_3', title: 'On a Roll', description: 'Win 3 races in a row', requirement: 3, type: 'winningStreak', reward: coins(500) },
+  { id: 'combo_25', title: 'Combo Master', description: 'Achieve a combo streak of 25', requirement: 25, type: 'comboStreak', reward: coins(250) },
+  { id: 'combo_50', title: 'Ultimate Combo', description: 'Achieve a combo streak of 50', requirement: 50, type: 'comboStreak', reward: coins(500) },
+];
+
+export function defaultChallengeStats(): ChallengeStats {
+  return {
+    totalDistance: 0,
+    bestDistance: 0,
+    totalCoins: 0,
+    bestCoinsInRun: 0,
+    enemiesDefeated: 0,
+    gamesPlayed: 0,
+    rocketsUsed: 0,
+    weathersSurvived: 0,
+    bestPadsInRun: 0,
+    bestConsecutiveJumps: 0,
+    crocodileRides: 0,
+    winningStreak: 0,
+    bestCombo: 0,
+  };
+}
+
+/** How far `stats` are towards `challenge`, capped at its requirement. */
+export function challengeProgress(challenge: Challenge, stats: ChallengeStats) {
+  return Math.min(challenge.requirement, stats[STATS[challenge.type]]);
+}
+
+/** A reward as the Challenges screen words it, after `ChallengeReward.displayText`. */
+export function rewardText(reward: ChallengeReward) {
+  switch (reward.type) {
+    case 'coins':
+      return `${reward.amount} Coins`;
+    case 'upgrade':
+      return `Free ${reward.item}`;
+    case 'permanentHealth':
+      return '+1 Max Health';
+  }
+}
+
+/** Completed challenges whose rewards are still waiting to be claimed. */
+export function unclaimedChallenges(profile: Profile) {
+  return CHALLENGES.filter(({ id }) => profile.challenges[id]?.completed && !profile.challenges[id]?.claimed);
+}
+
+/**
+ * Adds a run to the stats and marks any challenges it completed. `summary` is
+ * null for a run left before it ended: what happened in it still counts, but
+ * not as a game played or a distance travelled. Returns the challenges that
+ * were completed just now.
+ */
+export function recordChallengeRun(run: ChallengeRun, summary: RunSummary | null): Challenge[] {
+  const completed: Challenge[] = [];
+  updateProfile((profile) => {
+    const stats = profile.challengeStats;
+    stats.totalCoins += run.coins;
+    stats.bestCoinsInRun = Math.max(stats.bestCoinsInRun, run.coins);
+    stats.enemiesDefeated += run.enemiesDefeated;
+    stats.rocketsUsed += run.rocketsUsed;
+    stats.weathersSurvived += run.weathersSurvived;
+    stats.bestPadsInRun = Math.max(stats.bestPadsInRun, run.padsLanded);
+    stats.bestConsecutiveJumps = Math.max(stats.bestConsecutiveJumps, run.bestConsecutiveJumps);
+    stats.crocodileRides += run.crocodileRides;
+    stats.bestCombo = Math.max(stats.bestCombo, run.bestCombo);
+    if (summary) {
+      stats.gamesPlayed++;
+      stats.totalDistance += summary.distance;
+      stats.bestDistance = Math.max(stats.bestDistance, summary.distance);
+      if (summary.race) stats.winningStreak = summary.race.type === 'win' ? stats.winningStreak + 1 : 0;
+    }
+
+    const progress = { ...profile.challenges };
+    for (const challenge of CHALLENGES) {
+      if (progress[challenge.id]?.completed || challengeProgress(challenge, stats) < challenge.requirement) continue;
+      progress[challenge.id] = { completed: true, claimed: false };
+      completed.push(challenge);
+    }
+    profile.challenges = progress;
+  });
+  return completed;
+}
+
+/** Pays out a completed challenge's reward, once. Returns the updated profile. */
+export function claimChallenge(id: string) {
+  return updateProfile((profile) => {
+    const challenge = CHALLENGES.find((candidate) => candidate.id === id);
+    const progress = profile.challenges[id];
+    if (!challenge || !progress?.completed || progress.claimed) return;
+
+    const { reward } = challenge;
+    switch (reward.type) {
+      case 'coins':
+        profile.coins += reward.amount;
+        break;
+      case 'upgrade':
+        profile.items = { ...profile.items, [reward.item]: profile.items[reward.item] + 1 };
+        break;
+      case 'permanentHealth':
+        profile.heartBoost++;
+        break;
+    }
+    profile.challenges = { ...profile.challenges, [id]: { completed: true, claimed: true } };
+  });
+}
+
+/**
+ * Follows a run's events and records the run for the challenges when it ends.
+ * Call `stop()` when the engine is torn down; a run that hasn't ended by then
+ * is recorded as left part-way.
+ */
+export class ChallengeTracker {
+  private readonly run: ChallengeRun = {
+    coins: 0,
+    enemiesDefeated: 0,
+    rocketsUsed: 0,
+    weathersSurvived: 0,
+    padsLanded: 0,
+    bestConsecutiveJumps: 0,
+    crocodileRides: 0,
+    bestCombo: 0,
+  };
+  private consecutiveJumps = 0;
+  private recorded = false;
+  private readonly unsubscribes: (() => void)[];
+
+  constructor(engine: GameEngine) {
+    const { run } = this;
+    this.unsubscribes = [
+      engine.on('land', () => {
+        run.padsLanded++;
+        this.consecutiveJumps++;
+        run.bestConsecutiveJumps = Math.max(run.bestConsecutiveJumps, this.consecutiveJumps);
+      }),
+      engine.on('fallIntoWater', () => {
+        this.consecutiveJumps = 0;
+      }),
+      engine.on('collect', ({ coins }) => {
+        run.coins += coins;
+      }),
+      // Enemies count when an item, a cannon landing or a smashing buff takes them out.
+      engine.on('weaponHit', ({ target }) => {
+        if (target.type === 'enemy') run.enemiesDefeated++;
+      }),
+      engine.on('cannonLanding', ({ enemies }) => {
+        run.enemiesDefeated += enemies.length;
+      }),
+      engine.on('enemyHit', ({ outcome }) => {
+        if (outcome.type === 'destroyed') run.enemiesDefeated++;
+      }),
+      engine.on('rocket', ({ state }) => {
+        if (state === 'flying') run.rocketsUsed++;
+      }),
+      engine.on('crocodileRideComplete', () => {
+        run.crocodileRides++;
+      }),
+      engine.on('combo', ({ count }) => {
+        run.bestCombo = Math.max(run.bestCombo, count);
+      }),
+      engine.on('weatherTransition', () => {
+        run.weathersSurvived++;
+      }),
+      engine.on('gameOver', (summary) => this.record(summary)),
+    ];
+  }
+
+  stop() {
+    for (const unsubscribe of this.unsubscribes) unsubscribe();
+    this.record(null);
+  }
+
+  private record(summary: RunSummary | null) {
+    if (this.recorded) return;
+    this.recorded = true;
+    recordChallengeRun(this.run, summary);
+  }
+}
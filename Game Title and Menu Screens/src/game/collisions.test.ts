@@ -0,0 +1,233 @@
+import { describe, expect, it } from 'vitest';
+import { createBuffs, startingAbilities } from './buffs';
+import { createCombo } from './combo';
+import { AbilityType, CollisionDelegate, CollisionManager, HitOutcome } from './collisions';
+import { createEnemy } from './enemies';
+import { createHealth } from './health';
+import { Collectible, Enemy, EnemyType, Pad, World } from './types';
+
+function pad(id: number, x: number, y: number, overrides: Partial<Pad> = {}): Pad {
+  return {
+    id,
+    type: 'normal',
+    x,
+    y,
+    radius: 40,
+    moveSpeed: 0,
+    moveDirection: 1,
+    scale: 1,
+    shrinkTime: 0,
+    shrinkSpeed: 0,
+    hasSpawnedGhost: false,
+    ...overrides,
+  };
+}
+
+function enemy(type: EnemyType, x: number, y: number, z = 0): Enemy {
+  return { ...createEnemy(1, type, x, y), z };
+}
+
+function coin(x: number, y: number): Collectible {
+  return { id: 1, type: 'coin', x, y, z: 0, isCollected: false };
+}
+
+function world(overrides: Partial<World> = {}): World {
+  return {
+    time: 0,
+    weather: 'sunny',
+    weatherTransition: null,
+    frog: {
+      x: 300,
+      y: 100,
+      z: 0,
+      vx: 0,
+      vy: 0,
+      vz: 0,
+      onPadId: null,
+      isFloating: false,
+      ridingCrocodileId: null,
+      rocketState: 'none',
+      rocketTimer: 0,
+      cannonJump: 'none',
+    },
+    inventory: { honey: 0, swatter: 0, axe: 0, cross: 0, vest: 0, scrollSavers: 0 },
+    abilities: startingAbilities({}),
+    buffs: createBuffs(),
+    combo: createCombo(),
+    health: createHealth(3),
+    pads: [],
+    enemies: [],
+    crocodiles: [],
+    collectibles: [],
+    treasureChests: [],
+    effects: [],
+    camera: { x: 0, y: 0, prevX: 0, prevY: 0 },
+    aim: null,
+    trajectory: null,
+    rocketLanding: null,
+    race: null,
+    daily: null,
+    ...overrides,
+  };
+}
+
+/** Records every callback and answers hits with `outcome`. */
+function recorder(outcome: HitOutcome = HitOutcome.hitOnly) {
+  const calls: string[] = [];
+  const delegate: CollisionDelegate = {
+    didLand: (landed) => calls.push(`land ${landed.id}`),
+    didFallIntoWater: () => calls.push('water'),
+    didHitObstacle: (log) => {
+      calls.push(`obstacle ${log.id}`);
+      return outcome;
+    },
+    didCrash: (hit) => {
+      calls.push(`crash ${hit.type}`);
+      return outcome;
+    },
+    didCollect: (item) => calls.push(`collect ${item.type}`),
+    didLandOnCrocodile: (croc) => calls.push(`croc ${croc.id}`),
+    didCompleteCrocodileRide: (croc) => calls.push(`ride ${croc.id}`),
+    crocodileDidDestroyPad: (eaten) => calls.push(`croc ate pad ${eaten.id}`),
+    crocodileDidDestroyEnemy: (eaten) => calls.push(`croc ate ${eaten.type}`),
+  };
+  return { calls, manager: new CollisionManager(delegate) };
+}
+
+describe('HitOutcome', () => {
+  it('records what destroyed the target, if anything', () => {
+    expect(HitOutcome.hitOnly).toEqual({ type: 'hitOnly' });
+    expect(HitOutcome.destroyed()).toEqual({ type: 'destroyed', cause: null });
+    expect(HitOutcome.destroyed('honeyJar')).toEqual({ type: 'destroyed', cause: 'honeyJar' });
+  });
+});
+
+describe('CollisionManager landing', () => {
+  it('lands a frog that touches down on a pad', () => {
+    const { calls, manager } = recorder();
+    manager.update(world({ pads: [pad(3, 310, 100)] }));
+    expect(calls).toEqual(['land 3']);
+  });
+
+  it("doesn't land the frog again on the pad it is standing on", () => {
+    const { calls, manager } = recorder();
+    const state = world({ pads: [pad(3, 310, 100)] });
+    state.frog.onPadId = 3;
+    manager.update(state);
+    expect(calls).toEqual([]);
+  });
+
+  it('drops a frog that touches down over open water', () => {
+    const { calls, manager } = recorder();
+    manager.update(world({ pads: [pad(3, 500, 100)] }));
+    expect(calls).toEqual(['water']);
+  });
+
+  it('leaves airborne and floating frogs alone', () => {
+    const { calls, manager } = recorder();
+    const airborne = world();
+    airborne.frog.z = 10;
+    manager.update(airborne);
+    const floating = world();
+    floating.frog.isFloating = true;
+    manager.update(floating);
+    expect(calls).toEqual([]);
+  });
+
+  it("won't land on a log, only hit it", () => {
+    const { calls, manager } = recorder();
+    manager.update(world({ pads: [pad(4, 300, 100, { type: 'log' })] }));
+    expect(calls).toEqual(['water', 'obstacle 4']);
+  });
+});
+
+describe('CollisionManager hits', () => {
+  const enemyTypes: EnemyType[] = ['bee', 'dragonfly', 'ghost', 'snake'];
+
+  it.each(enemyTypes)('keeps a %s that survives the hit, but lets it hit only once', (type) => {
+    const { calls, manager } = recorder(HitOutcome.hitOnly);
+    const state = world({ enemies: [enemy(type, 310, 100)] });
+    state.frog.z = 5;
+    manager.update(state);
+    manager.update(state);
+    expect(calls).toEqual([`crash ${type}`]);
+    expect(state.enemies).toHaveLength(1);
+  });
+
+  const enemyKillers: [EnemyType, AbilityType | null][] = [
+    ['bee', 'honeyJar'],
+    ['dragonfly', 'flySwatter'],
+    ['ghost', null],
+    ['snake', null],
+  ];
+
+  it.each(enemyKillers)('removes a destroyed %s from the world', (type, cause) => {
+    const { manager } = recorder(HitOutcome.destroyed(cause));
+    const state = world({ enemies: [enemy(type, 310, 100)] });
+    state.frog.z = 5;
+    manager.update(state);
+    expect(state.enemies).toEqual([]);
+  });
+
+  it('removes a log chopped by an axe', () => {
+    const { calls, manager } = recorder(HitOutcome.destroyed('axe'));
+    const state = world({ pads: [pad(4, 300, 100, { type: 'log' })] });
+    state.frog.z = 10;
+    manager.update(state);
+    expect(calls).toEqual(['obstacle 4']);
+    expect(state.pads).toEqual([]);
+  });
+
+  it('keeps a log the frog only bumped into', () => {
+    const { manager } = recorder(HitOutcome.hitOnly);
+    const state = world({ pads: [pad(4, 300, 100, { type: 'log' })] });
+    state.frog.z = 10;
+    manager.update(state);
+    expect(state.pads).toHaveLength(1);
+  });
+
+  it('ignores enemies flying well above or below the frog', () => {
+    const { calls, manager } = recorder();
+    const state = world({ enemies: [enemy('bee', 300, 100, 40)] });
+    state.frog.z = 5;
+    manager.update(state);
+    expect(calls).toEqual([]);
+  });
+
+  it('lets a frog jump clean over a snake', () => {
+    const { calls, manager } = recorder();
+    const state = world({ enemies: [enemy('snake', 300, 100, 5)] });
+    state.frog.z = 15;
+    manager.update(state);
+    expect(calls).toEqual([]);
+  });
+
+  it('collects coins the frog passes over', () => {
+    const { calls, manager } = recorder();
+    const state = world({ collectibles: [coin(320, 110), coin(500, 500)] });
+    state.frog.z = 10;
+    manager.update(state);
+    expect(calls).toEqual(['collect coin']);
+    expect(state.collectibles).toHaveLength(1);
+  });
+});
+
+describe('CollisionManager drifting logs', () => {
+  it('turns a log around when it drifts into a pad', () => {
+    const { manager } = recorder();
+    const log = pad(4, 200, 500, { type: 'log', moveDirection: 1 });
+    const state = world({ pads: [log, pad(5, 280, 500)] });
+    state.frog.z = 10;
+    manager.update(state);
+    expect(log.moveDirection).toBe(-1);
+  });
+
+  it('keeps a log drifting away from the pad it touches', () => {
+    const { manager } = recorder();
+    const log = pad(4, 200, 500, { type: 'log', moveDirection: -1 });
+    const state = world({ pads: [log, pad(5, 280, 500)] });
+    state.frog.z = 10;
+    manager.update(state);
+    expect(log.moveDirection).toBe(-1);
+  });
+});
@@ -0,0 +1,268 @@
+// Frog-vs-world contact resolution, ported from CollisionManager on iOS.
+// The manager only detects contacts; what they mean (damage, score, effects)
+// is decided by its delegate, the same split as CollisionManagerDelegate.
+
+import { Configuration } from './config';
+import {
+  constrainCrocodile,
+  CROCODILE_HALF_HEIGHT,
+  CROCODILE_HALF_WIDTH,
+  isOverCrocodile,
+  isRideComplete,
+} from './crocodiles';
+import { canLandOn, hitsLog, LOG_HALF_HEIGHT, LOG_HALF_WIDTH } from './pads';
+import { Collectible, Crocodile, Enemy, Frog, Pad, Vec2, World } from './types';
+
+export type AbilityType =
+  | 'extraHeart'
+  | 'superJump'
+  | 'refillHearts'
+  | 'lifeVest'
+  | 'scrollSaver'
+  | 'flySwatter'
+  | 'honeyJar'
+  | 'rocket'
+  | 'cannonJump'
+  | 'axe';
+
+/**
+ * What became of the thing the frog ran into: it survived the hit, or it was
+ * destroyed, optionally by an ability (honey for bees, an axe for logs...).
+ */
+export type HitOutcome = { type: 'hitOnly' } | { type: 'destroyed'; cause: AbilityType | null };
+
+export const HitOutcome = {
+  hitOnly: { type: 'hitOnly' } satisfies HitOutcome,
+  destroyed(cause: AbilityType | null = null): HitOutcome {
+    return { type: 'destroyed', cause };
+  },
+};
+
+export interface CollisionDelegate {
+  didLand(pad: Pad): void;
+  didFallIntoWater(): void;
+  /** The frog ran into a log. Destroyed logs are removed from the river. */
+  didHitObstacle(pad: Pad): HitOutcome;
+  /**
+   * An enemy reached the frog. It can't hit again either way; destroyed
+   * enemies are also removed from the world.
+   */
+  didCrash(enemy: Enemy): HitOutcome;
+  didCollect(item: Collectible): void;
+  /** The frog came down on an idle or fleeing crocodile. */
+  didLandOnCrocodile(croc: Crocodile): void;
+  didCompleteCrocodileRide(croc: Crocodile): void;
+  /** A carrying crocodile ploughed through a pad or log, which is removed from the river. */
+  crocodileDidDestroyPad(pad: Pad): void;
+  /** A carrying crocodile ate an enemy, which is removed from the world. */
+  crocodileDidDestroyEnemy(enemy: Enemy): void;
+}
+
+export interface CollisionOptions {
+  /** With the log jumper upgrade, logs are landed on instead of run into. */
+  canLandOnLogs?: boolean;
+}
+
+const COIN_RADIUS = 20;
+const ENEMY_RADIUS = 15;
+// Enemies only connect when they fly at roughly the frog's height.
+const ENEMY_MAX_HEIGHT_DIFFERENCE = 30;
+// Snakes are bigger, but a frog even a little way up jumps clean over them.
+const SNAKE_RADIUS = 25;
+const SNAKE_MAX_HEIGHT_DIFFERENCE = 10;
+// Approximate half-size of a round pad when a drifting log bumps into it.
+const PAD_HALF_EXTENT = 45;
+const LOG_BUMP_RANGE = 150;
+// Box a crocodile uses for pads it bumps into, and the reach of its jaws.
+const CROCODILE_PAD_HALF_EXTENT = 50;
+const CROCODILE_BITE_RADIUS = 20;
+
+export class CollisionManager {
+  private readonly coinRadiusSq: number;
+  private readonly enemyRadiusSq: number;
+  private readonly snakeRadiusSq: number;
+
+  private readonly canLandOnLogs: boolean;
+
+  constructor(
+    private readonly delegate: CollisionDelegate,
+    { canLandOnLogs = false }: CollisionOptions = {},
+  ) {
+    this.canLandOnLogs = canLandOnLogs;
+    const { frogRadius } = Configuration.Dimensions;
+    this.coinRadiusSq = (COIN_RADIUS + frogRadius) ** 2;
+    this.enemyRadiusSq = (ENEMY_RADIUS + frogRadius) ** 2;
+    this.snakeRadiusSq = (SNAKE_RADIUS + frogRadius) ** 2;
+  }
+
+  update(world: World) {
+    const { frog } = world;
+    for (const croc of world.crocodiles.filter(isRideComplete)) {
+      this.delegate.didCompleteCrocodileRide(croc);
+    }
+    if (frog.z <= 0 && frog.vz <= 0) this.checkForLanding(world);
+    this.checkEntityCollisions(world);
+    this.checkObstacleCollisions(world);
+    this.checkLogPadCollisions(world.pads);
+    this.checkCrocodileCollisions(world);
+  }
+
+  /**
+   * The pad a frog touching down at `point` would land on. The pad it is
+   * already standing on wins, so a shrinking pad can't drop it.
+   */
+  landingPadAt(world: World, point: Vec2): Pad | undefined {
+    const { pads, frog } = world;
+    const current = pads.find((pad) => pad.id === frog.onPadId);
+    if (current && canLandOn(current, point, true)) return current;
+    // Logs are obstacles rather than somewhere to land, unless the frog can jump onto them.
+    return pads.find((pad) => (pad.type !== 'log' || this.canLandOnLogs) && canLandOn(pad, point));
+  }
+
+  private checkForLanding(world: World) {
+    const { frog } = world;
+    // A floating frog has to jump out of the water before it can land again.
+    // Otherwise sliding off an icy pad could re-land on its edge forever.
+    if (frog.isFloating) return;
+    if (this.checkCrocodileLanding(world)) return;
+
+    const pad = this.landingPadAt(world, frog);
+    if (!pad) {
+      this.delegate.didFallIntoWater();
+    } else if (pad.id !== frog.onPadId) {
+      this.delegate.didLand(pad);
+    }
+  }
+
+  // True while the frog is on a crocodile, whether riding or just landed.
+  private checkCrocodileLanding(world: World) {
+    const { frog } = world;
+    for (const croc of world.crocodiles) {
+      if (!isOverCrocodile(croc, frog)) continue;
+      if (croc.state === 'carrying' && croc.id === frog.ridingCrocodileId) return true;
+      if (croc.state === 'idle' || croc.state === 'fleeing') {
+        this.delegate.didLandOnCrocodile(croc);
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private checkEntityCollisions(world: World) {
+    const { frog } = world;
+
+    let collected = false;
+    for (const item of world.collectibles) {
+      if (item.isCollected) continue;
+      if ((frog.x - item.x) ** 2 + (frog.y - item.y) ** 2 < this.coinRadiusSq) {
+        item.isCollected = true;
+        collected = true;
+        this.delegate.didCollect(item);
+      }
+    }
+    if (collected) world.collectibles = world.collectibles.filter((item) => !item.isCollected);
+
+    const destroyed = new Set<Enemy>();
+    for (const enemy of world.enemies) {
+      if (enemy.isBeingDestroyed) continue;
+      if (!this.touchesEnemy(frog, enemy)) continue;
+
+      // Mark it straight away so it can't hit again on the next step.
+      enemy.isBeingDestroyed = true;
+      const outcome = this.delegate.didCrash(enemy);
+      if (outcome.type === 'destroyed') destroyed.add(enemy);
+    }
+    if (destroyed.size > 0) world.enemies = world.enemies.filter((enemy) => !destroyed.has(enemy));
+  }
+
+  private touchesEnemy(frog: Frog, enemy: Enemy) {
+    const distSq = (frog.x - enemy.x) ** 2 + (frog.y - enemy.y) ** 2;
+    if (enemy.type === 'snake') {
+      return distSq < this.snakeRadiusSq && frog.z - enemy.z < SNAKE_MAX_HEIGHT_DIFFERENCE;
+    }
+    return distSq < this.enemyRadiusSq && Math.abs(frog.z - enemy.z) < ENEMY_MAX_HEIGHT_DIFFERENCE;
+  }
+
+  private checkObstacleCollisions(world: World) {
+    if (this.canLandOnLogs) return;
+    const log = world.pads.find((pad) => hitsLog(pad, world.frog));
+    if (!log) return;
+    const outcome = this.delegate.didHitObstacle(log);
+    if (outcome.type === 'destroyed') {
+      world.pads = world.pads.filter((pad) => pad !== log);
+    }
+  }
+
+  // Drifting logs turn around when they bump into a pad or another log.
+  private checkLogPadCollisions(pads: Pad[]) {
+    for (const log of pads) {
+      if (log.type !== 'log') continue;
+      for (const other of pads) {
+        if (other === log) continue;
+        const dx = Math.abs(log.x - other.x);
+        const dy = Math.abs(log.y - other.y);
+        if (dx > LOG_BUMP_RANGE || dy > LOG_BUMP_RANGE) continue;
+
+        const otherHalfWidth = other.type === 'log' ? LOG_HALF_WIDTH : PAD_HALF_EXTENT;
+        const otherHalfHeight = other.type === 'log' ? LOG_HALF_HEIGHT : PAD_HALF_EXTENT;
+        if (dx >= LOG_HALF_WIDTH + otherHalfWidth || dy >= LOG_HALF_HEIGHT + otherHalfHeight) continue;
+
+        // Only turn when heading into the other pad, so the log can't get stuck.
+        if (log.x < other.x && log.moveDirection > 0) log.moveDirection = -1;
+        else if (log.x > other.x && log.moveDirection < 0) log.moveDirection = 1;
+      }
+    }
+  }
+
+  // A crocodile carrying the frog chomps through everything in its way;
+  // otherwise pads push it aside.
+  private checkCrocodileCollisions(world: World) {
+    const destroyedPads = new Set<Pad>();
+    const destroyedEnemies = new Set<Enemy>();
+
+    for (const croc of world.crocodiles) {
+      if (croc.state === 'submerged') continue;
+      const carrying = croc.state === 'carrying';
+
+      for (const pad of world.pads) {
+        const halfWidth = pad.type === 'log' ? LOG_HALF_WIDTH : CROCODILE_PAD_HALF_EXTENT;
+        const halfHeight = pad.type === 'log' ? LOG_HALF_HEIGHT : CROCODILE_PAD_HALF_EXTENT;
+        const overlapX = CROCODILE_HALF_WIDTH + halfWidth - Math.abs(croc.x - pad.x);
+        const overlapY = CROCODILE_HALF_HEIGHT + halfHeight - Math.abs(croc.y - pad.y);
+        if (overlapX <= 0 || overlapY <= 0) continue;
+
+        if (carrying) {
+          destroyedPads.add(pad);
+        } else if (overlapX < overlapY) {
+          croc.x += (croc.x >= pad.x ? overlapX : -overlapX) * 0.5;
+        } else {
+          croc.y += (croc.y >= pad.y ? overlapY : -overlapY) * 0.5;
+        }
+      }
+      constrainCrocodile(croc);
+
+      if (!carrying) continue;
+      for (const enemy of world.enemies) {
+        const reach = enemy.type === 'snake' ? SNAKE_RADIUS : CROCODILE_BITE_RADIUS;
+        if (
+          Math.abs(croc.x - enemy.x) < CROCODILE_HALF_WIDTH + reach &&
+          Math.abs(croc.y - enemy.y) < CROCODILE_HALF_HEIGHT + reach
+        ) {
+          destroyedEnemies.add(enemy);
+        }
+      }
+    }
+
+    if (destroyedPads.size > 0) {
+      world.pads = world.pads.filter((pad) => !destroyedPads.has(pad));
+      for (const pad of destroyedPads) this.delegate.crocodileDidDestroyPad(pad);
+    }
+    if (destroyedEnemies.size > 0) {
+      world.enemies = world.enemies.filter((enemy) => !destroyedEnemies.has(enemy));
+      for (const enemy of destroyedEnemies) {
+        enemy.isBeingDestroyed = true;
+        this.delegate.crocodileDidDestroyEnemy(enemy);
+      }
+    }
+  }
+}
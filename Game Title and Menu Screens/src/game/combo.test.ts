@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import {
+  breakCombo,
+  COMBO_TIMEOUT,
+  comboMultiplier,
+  createCombo,
+  hasComboTimedOut,
+  invincibleCombo,
+  isComboMilestone,
+  landCombo,
+} from './combo';
+import { Pad } from './types';
+
+function pad(id: number, y: number): Pad {
+  return {
+    id,
+    type: 'normal',
+    x: 300,
+    y,
+    radius: 40,
+    moveSpeed: 0,
+    moveDirection: 1,
+    scale: 1,
+    shrinkTime: 0,
+    shrinkSpeed: 0,
+    hasSpawnedGhost: false,
+  };
+}
+
+const invincibleAt = invincibleCombo({});
+
+/** Lands on `count` pads in a row, each further up the river, half a second apart. */
+function hopForward(count: number, threshold = invincibleAt) {
+  const combo = createCombo();
+  for (let i = 0; i <= count; i++) landCombo(combo, pad(i, i * 100), i * 0.5, threshold);
+  return combo;
+}
+
+describe('comboMultiplier', () => {
+  it('adds a tenth for every landing in the combo', () => {
+    expect(comboMultiplier(0)).toBe(1);
+    expect(comboMultiplier(5)).toBeCloseTo(1.5);
+    expect(comboMultiplier(12)).toBeCloseTo(2.2);
+  });
+});
+
+describe('isComboMilestone', () => {
+  it('marks every fifth landing', () => {
+    expect([0, 1, 4, 5, 6, 10, 15].filter(isComboMilestone)).toEqual([5, 10, 15]);
+  });
+});
+
+describe('landCombo', () => {
+  it('starts counting from the second quick landing', () => {
+    const combo = createCombo();
+    expect(landCombo(combo, pad(1, 100), 0, invincibleAt)).toBe(false);
+    expect(landCombo(combo, pad(2, 200), 0.5, invincibleAt)).toBe(true);
+    expect(combo.count).toBe(1);
+  });
+
+  it('keeps the combo without growing it when landing on the same pad', () => {
+    const combo = hopForward(3);
+    expect(landCombo(combo, pad(3, 300), 1.6, invincibleAt)).toBe(false);
+    expect(combo.count).toBe(3);
+  });
+
+  it('forgives one landing back down the river, but not two in a row', () => {
+    const combo = hopForward(3);
+    landCombo(combo, pad(10, 100), 1.7, invincibleAt);
+    expect(combo.count).toBe(3);
+    landCombo(combo, pad(11, 0), 1.9, invincibleAt);
+    expect(combo.count).toBe(0);
+  });
+
+  it('starts over after too long a wait', () => {
+    const combo = hopForward(3);
+    landCombo(combo, pad(10, 1000), 1.5 + COMBO_TIMEOUT, invincibleAt);
+    expect(combo.count).toBe(0);
+    expect(combo.best).toBe(3);
+  });
+
+  it('makes the frog invincible at the threshold, sooner with the combo boost', () => {
+    expect(hopForward(invincibleAt - 1).invincible).toBe(false);
+    expect(hopForward(invincibleAt).invincible).toBe(true);
+    const boosted = invincibleCombo({ comboBoost: true });
+    expect(boosted).toBeLessThan(invincibleAt);
+    expect(hopForward(boosted, boosted).invincible).toBe(true);
+  });
+});
+
+describe('hasComboTimedOut', () => {
+  it('runs out once the timeout passes with a combo going', () => {
+    const combo = hopForward(2);
+    expect(hasComboTimedOut(combo, 1 + COMBO_TIMEOUT - 0.01)).toBe(false);
+    expect(hasComboTimedOut(combo, 1 + COMBO_TIMEOUT)).toBe(true);
+    expect(hasComboTimedOut(createCombo(), 100)).toBe(false);
+  });
+});
+
+describe('breakCombo', () => {
+  it('clears the combo and invincibility but keeps the best', () => {
+    const combo = hopForward(invincibleAt);
+    expect(breakCombo(combo)).toBe(true);
+    expect(combo).toMatchObject({ count: 0, invincible: false, best: invincibleAt });
+    expect(breakCombo(combo)).toBe(false);
+  });
+});
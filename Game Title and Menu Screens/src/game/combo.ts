@@ -0,0 +1,103 @@
+// Landing combos, after the hype combo logic in GameScene.didLand on iOS.
+// Every landing on a new pad further up the river within a second of the last
+// one adds to the combo, and each step raises the score multiplier by a tenth.
+// One landing back down the river is forgiven; a second in a row breaks the
+// combo, as does a fall into the water, a hit or too long a wait. A long
+// enough combo makes the frog smash through enemies until it breaks.
+
+import type { Unlocks } from './profile';
+import { Pad } from './types';
+
+// Seconds allowed between landings before the combo runs out.
+export const COMBO_TIMEOUT = 1;
+const MULTIPLIER_PER_LANDING = 0.1;
+// How far back down the river a landing can be and still count as forward.
+const FORWARD_TOLERANCE = 10;
+const BACKWARD_JUMPS_ALLOWED = 1;
+const INVINCIBLE_COMBO = 25;
+const BOOSTED_INVINCIBLE_COMBO = 15;
+// Combos worth telling challenges and analytics about: every fifth landing.
+const MILESTONE_INTERVAL = 5;
+
+export interface Combo {
+  count: number;
+  /** Longest combo this run. */
+  best: number;
+  /** World time of the last landing; null before the first. */
+  lastLandingTime: number | null;
+  lastPadId: number | null;
+  lastLandingY: number;
+  backwardJumps: number;
+  /** Reached the invincibility threshold; lasts until the combo breaks. */
+  invincible: boolean;
+}
+
+export function createCombo(): Combo {
+  return {
+    count: 0,
+    best: 0,
+    lastLandingTime: null,
+    lastPadId: null,
+    lastLandingY: 0,
+    backwardJumps: 0,
+    invincible: false,
+  };
+}
+
+/** What a combo of `count` landings multiplies the score by. */
+export function comboMultiplier(count: number) {
+  return 1 + count * MULTIPLIER_PER_LANDING;
+}
+
+/** The combo at which the frog turns invincible; the combo boost upgrade brings it down. */
+export function invincibleCombo(unlocks: Partial<Unlocks>) {
+  return unlocks.comboBoost ? BOOSTED_INVINCIBLE_COMBO : INVINCIBLE_COMBO;
+}
+
+export function isComboMilestone(count: number) {
+  return count > 0 && count % MILESTONE_INTERVAL === 0;
+}
+
+/**
+ * Counts a landing on `pad` at world time `time`; the frog turns invincible
+ * once the count reaches `invincibleAt`. Returns true if the combo grew;
+ * landing on the same pad again keeps the combo without adding to it.
+ */
+export function landCombo(combo: Combo, pad: Pad, time: number, invincibleAt: number): boolean {
+  const samePad = pad.id === combo.lastPadId;
+  const inTime = combo.lastLandingTime !== null && time - combo.lastLandingTime < COMBO_TIMEOUT;
+  let grew = false;
+
+  if (inTime && !samePad) {
+    if (pad.y > combo.lastLandingY - FORWARD_TOLERANCE) {
+      combo.count++;
+      combo.best = Math.max(combo.best, combo.count);
+      combo.backwardJumps = 0;
+      if (combo.count >= invincibleAt) combo.invincible = true;
+      grew = true;
+    } else if (++combo.backwardJumps > BACKWARD_JUMPS_ALLOWED) {
+      breakCombo(combo);
+    }
+  } else if (!samePad) {
+    breakCombo(combo);
+  }
+
+  combo.lastLandingTime = time;
+  combo.lastPadId = pad.id;
+  combo.lastLandingY = pad.y;
+  return grew;
+}
+
+/** True once too long has passed since the last landing for the combo to carry on. */
+export function hasComboTimedOut(combo: Combo, time: number) {
+  return combo.count > 0 && combo.lastLandingTime !== null && time - combo.lastLandingTime >= COMBO_TIMEOUT;
+}
+
+/** Ends the combo; returns false if there wasn't one going. */
+export function breakCombo(combo: Combo): boolean {
+  const hadCombo = combo.count > 0 || combo.invincible;
+  combo.count = 0;
+  combo.backwardJumps = 0;
+  combo.invincible = false;
+  return hadCombo;
+}
@@ -0,0 +1,224 @@
+// Centralized game balance, dimensions and colors.
+// Mirrors `Configuration.swift` from the iOS app so both clients play the same.
+
+export type WeatherType = 'sunny' | 'night' | 'rain' | 'winter' | 'desert' | 'space';
+
+/** Every biome, in the order a run passes through them. */
+export const WEATHER_TYPES: readonly WeatherType[] = ['sunny', 'night', 'rain', 'winter', 'desert', 'space'];
+
+export type PadType =
+  | 'normal'
+  | 'moving'
+  | 'ice'
+  | 'log'
+  | 'grave'
+  | 'shrinking'
+  | 'waterLily'
+  | 'launchPad'
+  | 'warp';
+
+/** Entities whose spawn chance is driven by the difficulty level. */
+export type SpawnEntity =
+  | 'enemy'
+  | 'dragonfly'
+  | 'log'
+  | 'movingPad'
+  | 'icePad'
+  | 'shrinkingPad'
+  | 'snake'
+  | 'crocodile';
+
+/**
+ * How often one kind of entity spawns. The chance is `base` at `startLevel`,
+ * grows by `perLevel` with every level after that and stops at `max`.
+ */
+export interface SpawnRule {
+  startLevel: number;
+  /** For entities that turn up partway through a level. */
+  startScore?: number;
+  base: number;
+  perLevel: number;
+  max: number;
+  /** Multiplier on the chance in each biome; biomes left out never see the entity. */
+  weathers: Partial<Record<WeatherType, number>>;
+}
+
+const NATURAL_WEATHERS: readonly WeatherType[] = ['sunny', 'night', 'rain', 'winter'];
+
+function inWeathers(weathers: readonly WeatherType[], multiplier = 1): Partial<Record<WeatherType, number>> {
+  return Object.fromEntries(weathers.map((weather) => [weather, multiplier]));
+}
+
+const SPAWN_RULES: Readonly<Record<SpawnEntity, SpawnRule>> = {
+  // A bee or dragonfly over a new pad. Snakes replace them in the desert.
+  enemy: {
+    startLevel: 0,
+    base: 0.15,
+    perLevel: 0.25,
+    max: 0.65,
+    weathers: inWeathers([...NATURAL_WEATHERS, 'space']),
+  },
+  // Share of those enemies that are dragonflies rather than bees.
+  dragonfly: {
+    startLevel: 2,
+    base: 0.4,
+    perLevel: 0.1,
+    max: 0.5,
+    weathers: inWeathers([...NATURAL_WEATHERS, 'space']),
+  },
+  log: { startLevel: 1, base: 0.35, perLevel: 0.05, max: 0.7, weathers: inWeathers(NATURAL_WEATHERS) },
+  movingPad: {
+    startLevel: 1,
+    base: 0.15,
+    perLevel: 0,
+    max: 0.15,
+    weathers: inWeathers([...NATURAL_WEATHERS, 'space']),
+  },
+  icePad: { startLevel: 2, base: 0.1, perLevel: 0, max: 0.1, weathers: inWeathers(['winter']) },
+  shrinkingPad: { startLevel: 1, base: 0.05, perLevel: 0.05, max: 0.35, weathers: inWeathers(NATURAL_WEATHERS) },
+  // Snakes start with the desert and keep turning up, half as often, afterwards.
+  snake: {
+    startLevel: 4,
+    startScore: 2400,
+    base: 0.15,
+    perLevel: 0.02,
+    max: 0.4,
+    weathers: { ...inWeathers([...NATURAL_WEATHERS, 'space'], 0.5), desert: 1 },
+  },
+  // A crocodile lurking near a new water lily.
+  crocodile: {
+    startLevel: 5,
+    startScore: 2500,
+    base: 0.15,
+    perLevel: 0,
+    max: 0.15,
+    weathers: inWeathers(NATURAL_WEATHERS),
+  },
+};
+
+export const Configuration = {
+  Physics: {
+    gravityZ: 0.5,
+    frictionGround: 0.8,
+    frictionAir: 0.9,
+    baseJumpZ: 4.0,
+    maxDragDistance: 300,
+
+    /** Launch velocity per unit of drag for the given jump upgrade level. */
+    dragPower(level: number) {
+      return 0.12 + level * 0.0075;
+    },
+  },
+
+  Dimensions: {
+    riverWidth: 600,
+    minPadRadius: 55,
+    maxPadRadius: 105,
+    // Minimum gap between neighbouring lily pads.
+    padSpacing: 25,
+    frogRadius: 20,
+    // Share of a pad's visual radius that counts as solid ground for landing.
+    padPhysicsRadiusMultiplier: 0.6,
+  },
+
+  // Distance at which each biome begins, in tenths of world units.
+  Weather: {
+    sunnyStart: 0,
+    nightStart: 500,
+    rainStart: 1000,
+    winterStart: 1600,
+    desertStart: 2400,
+    spaceStart: 3000,
+  },
+
+  GameRules: {
+    // The launch pad to space appears 100m before space begins.
+    launchPadSpawnScore: 2900,
+    // The warp pad back to a sunny day appears at the end of space.
+    warpPadSpawnScore: 4000,
+    // Seconds of rocket flight, doubled by the "double rocket time" upgrade,
+    // then the window for picking where to come down.
+    rocketDuration: 10,
+    rocketLandingDuration: 5,
+    superJumpDuration: 10,
+    bootsDuration: 5,
+    // Uses of each ability per run, once unlocked; boots come with every run.
+    // On iOS only the cannon jump has a fixed allowance; the others come up as
+    // upgrade picks during the run.
+    cannonJumpsPerRun: 3,
+    superJumpsPerRun: 1,
+    bootsPerRun: 1,
+    rocketsPerRun: 1,
+    // Hearts start at two plus the health upgrade level; a hit leaves the frog
+    // untouchable for a couple of seconds, and each heart buys a few seconds
+    // to get out of the water.
+    baseHearts: 2,
+    invulnerabilityDuration: 2,
+    drowningGracePeriod: 3,
+    // Beat the Boat: the finish line's distance up the river and the boat's
+    // speed per step. Every win in a row moves the line further away, speeds
+    // the boat up and raises the prize.
+    boatRaceFinishY: 20000,
+    boatSpeed: 2.8,
+    boatRaceReward: 100,
+    raceLengthPerWin: 1000,
+    boatSpeedPerWin: 0.1,
+    raceRewardPerWin: 100,
+    raceCountdown: 3,
+    // Daily challenge: the run is complete 1000m up the river, and the first
+    // completion each day pays out.
+    dailyChallengeDistance: 1000,
+    dailyChallengeReward: 100,
+  },
+
+  // Upgrade caps and prices in coins. Upgrades cost more at each level;
+  // consumables come in packs of four.
+  Shop: {
+    maxJumpLevel: 10,
+    maxHealthLevel: 5,
+
+    /** Price of the next jump upgrade from `level`. */
+    jumpUpgradeCost(level: number) {
+      return level * 100;
+    },
+
+    /** Price of the next health upgrade from `level`. */
+    healthUpgradeCost(level: number) {
+      return level * 250;
+    },
+
+    logJumperCost: 300,
+    superJumpCost: 500,
+    rocketJumpCost: 500,
+    cannonJumpCost: 1000,
+    comboBoostCost: 500,
+    lifevest4PackCost: 100,
+    honey4PackCost: 20,
+    cross4PackCost: 20,
+    swatter4PackCost: 20,
+    axe4PackCost: 20,
+  },
+
+  Difficulty: {
+    // Difficulty goes up one level every 500 score.
+    scalingInterval: 500,
+
+    // Spawn chances per entity; see `SpawnRule`. Tune these rather than the
+    // generation code, which only ever asks the difficulty director.
+    spawnRules: SPAWN_RULES,
+
+    // Hard caps on top of the spawn chances.
+    snakeMaxOnScreen: 3,
+    crocodileMaxPerRun: 2,
+  },
+
+  Colors: {
+    sunny: 'rgb(52, 152, 219)',
+    rain: 'rgb(44, 62, 80)',
+    night: 'rgb(8, 15, 40)',
+    winter: 'rgb(160, 190, 220)',
+    desertTop: 'rgb(40, 30, 20)',
+    desertBottom: 'rgb(10, 8, 5)',
+    space: 'rgb(100, 110, 180)',
+  },
+} as const;
@@ -0,0 +1,120 @@
+// Crocodile behavior, ported from the iOS `Crocodile` entity. A crocodile
+// waits under the water, rises, idles on the surface and swims away from an
+// approaching frog. A frog that lands on it gets carried upstream for a while.
+
+import { Configuration } from './config';
+import { Crocodile, CrocodileState, Frog, Vec2 } from './types';
+
+// Crocodiles are a 300x120 box.
+export const CROCODILE_HALF_WIDTH = 150;
+export const CROCODILE_HALF_HEIGHT = 60;
+export const CROCODILE_CARRY_DURATION = 15;
+// Coins for riding all the way.
+export const CROCODILE_CARRY_REWARD = 10;
+
+const RISE_DURATION = 1;
+// Per-step speeds, like the per-frame iOS movement.
+const SWIM_SPEED = 4;
+const FLEE_SPEED = 6;
+const STEER_SPEED = 4;
+const STEER_DECAY = 0.9;
+const DETECTION_RADIUS = 400;
+
+export function createCrocodile(id: number, x: number, y: number, riseDelay: number): Crocodile {
+  return {
+    id,
+    x,
+    y,
+    state: 'submerged',
+    stateTime: 0,
+    riseDelay,
+    carryTime: 0,
+    steerDirection: 0,
+    opacity: 0,
+  };
+}
+
+/** Advances the crocodile's state machine by one fixed step. */
+export function updateCrocodile(croc: Crocodile, dt: number, frog: Frog) {
+  croc.stateTime += dt;
+  const dx = frog.x - croc.x;
+  const dy = frog.y - croc.y;
+  const distance = Math.hypot(dx, dy);
+
+  switch (croc.state) {
+    case 'submerged':
+      if (croc.stateTime >= croc.riseDelay) transition(croc, 'rising');
+      break;
+    case 'rising':
+      croc.opacity = Math.min(1, croc.stateTime / RISE_DURATION);
+      if (croc.opacity >= 1) transition(croc, 'idle');
+      break;
+    case 'idle':
+      // A frog coming up from behind scares it off.
+      if (distance < DETECTION_RADIUS && dy < 50) transition(croc, 'fleeing');
+      break;
+    case 'fleeing':
+      croc.y += FLEE_SPEED;
+      croc.x += Math.sin(croc.stateTime * 8) * 2;
+      constrainCrocodile(croc);
+      // Settles down again once it has got away.
+      if ((distance > DETECTION_RADIUS * 2.5 || dy > 100) && croc.stateTime > 1.5) transition(croc, 'idle');
+      break;
+    case 'carrying':
+      croc.carryTime += dt;
+      croc.y += SWIM_SPEED * 1.5;
+      croc.x += croc.steerDirection * STEER_SPEED;
+      // Steering fades out, so the rider has to keep tapping.
+      croc.steerDirection *= STEER_DECAY;
+      constrainCrocodile(croc);
+      break;
+  }
+}
+
+export function startCarrying(croc: Crocodile) {
+  transition(croc, 'carrying');
+}
+
+/** Ends a ride; returns whether it lasted the full duration. */
+export function stopCarrying(croc: Crocodile) {
+  const completed = croc.state === 'carrying' && croc.carryTime >= CROCODILE_CARRY_DURATION;
+  transition(croc, 'idle');
+  return completed;
+}
+
+/** Steers a carrying crocodile: -1 for left, 1 for right. */
+export function steerCrocodile(croc: Crocodile, direction: number) {
+  if (croc.state === 'carrying') croc.steerDirection = direction;
+}
+
+export function isRideComplete(croc: Crocodile) {
+  return croc.state === 'carrying' && croc.carryTime >= CROCODILE_CARRY_DURATION;
+}
+
+export function remainingRideTime(croc: Crocodile) {
+  return Math.max(0, CROCODILE_CARRY_DURATION - croc.carryTime);
+}
+
+/** Whether a point is over the crocodile, with a small allowance for the frog's feet. */
+export function isOverCrocodile(croc: Crocodile, point: Vec2) {
+  const buffer = Configuration.Dimensions.frogRadius * 0.15;
+  return (
+    Math.abs(point.x - croc.x) < CROCODILE_HALF_WIDTH + buffer &&
+    Math.abs(point.y - croc.y) < CROCODILE_HALF_HEIGHT + buffer
+  );
+}
+
+function transition(croc: Crocodile, state: CrocodileState) {
+  croc.state = state;
+  croc.stateTime = 0;
+  if (state === 'submerged') croc.opacity = 0;
+  if (state === 'idle') croc.opacity = 1;
+  if (state === 'carrying') croc.carryTime = 0;
+  if (state !== 'carrying') croc.steerDirection = 0;
+}
+
+/** Keeps the crocodile's center a frog's width inside the banks, as on iOS. */
+export function constrainCrocodile(croc: Crocodile) {
+  const { riverWidth, frogRadius } = Configuration.Dimensions;
+  croc.x = Math.min(Math.max(croc.x, frogRadius), riverWidth - frogRadius);
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { createDailyChallenge, dateKey, dateSeed } from './daily';
+
+describe('dateSeed', () => {
+  it('is the 32-bit FNV-1a hash of the key', () => {
+    expect(dateSeed('')).toBe(0x811c9dc5);
+    expect(dateSeed('a')).toBe(0xe40c292c);
+    expect(dateSeed('foobar')).toBe(0xbf9cf968);
+  });
+
+  it('is the same every time for a date', () => {
+    expect(dateSeed('2026-10-19')).toBe(dateSeed('2026-10-19'));
+  });
+
+  it('differs between neighbouring days', () => {
+    expect(dateSeed('2026-10-19')).not.toBe(dateSeed('2026-10-20'));
+    expect(dateSeed('2026-10-31')).not.toBe(dateSeed('2026-11-01'));
+  });
+});
+
+describe('dateKey', () => {
+  it('pads the month and day', () => {
+    expect(dateKey(new Date(2026, 0, 5))).toBe('2026-01-05');
+  });
+});
+
+describe('createDailyChallenge', () => {
+  it('builds the same challenge for the same date', () => {
+    expect(createDailyChallenge('2026-10-19')).toEqual(createDailyChallenge('2026-10-19'));
+  });
+
+  it('seeds the challenge from the date', () => {
+    const challenge = createDailyChallenge('2026-10-19');
+    expect(challenge.date).toBe('2026-10-19');
+    expect(challenge.seed).toBe(dateSeed('2026-10-19'));
+  });
+});
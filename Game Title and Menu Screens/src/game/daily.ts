@@ -0,0 +1,212 @@
+// Daily challenges, after DailyChallenges.swift and the challenge handling in
+// GameScene on iOS. Each day gets one challenge generated from its date: a
+// fixed climate, an enemy focus and a pad focus that reshape the spawn
+// chances, and a finish line to reach as fast as possible. iOS seeds from
+// Swift's `hashValue`, which differs between launches; the seed here is a
+// hash of the date itself, so every device builds the same challenge and the
+// same river for a given day.
+
+import { Configuration, SpawnEntity, WeatherType } from './config';
+import { createRandom, Random, randomInt } from './random';
+
+export type EnemyFocusType = 'bee' | 'dragonfly' | 'snake' | 'crocodile' | 'mixed';
+
+export type PadFocusType = 'moving' | 'shrinking' | 'ice' | 'normal' | 'mixed';
+
+export interface DailyChallenge {
+  /** Local date it's for, as `yyyy-MM-dd`. */
+  date: string;
+  /** Seeds both the challenge and its river. */
+  seed: number;
+  climate: WeatherType;
+  focusEnemyTypes: EnemyFocusType[];
+  focusPadTypes: PadFocusType[];
+  name: string;
+  description: string;
+}
+
+/** The player's record on one day's challenge. */
+export interface DailyChallengeResult {
+  date: string;
+  /** Seconds to the finish line in the fastest completion; 0 until completed. */
+  bestTime: number;
+  /** Furthest distance reached in any attempt. */
+  bestDistance: number;
+  attempts: number;
+  completed: boolean;
+}
+
+/** How a single attempt went. */
+export interface DailyRun {
+  date: string;
+  time: number;
+  distance: number;
+  completed: boolean;
+}
+
+/** World height of the finish line; distances count tenths of world units. */
+export const DAILY_FINISH_Y = Configuration.GameRules.dailyChallengeDistance * 10;
+
+// Daily challenges keep to the biomes a run passes through on foot.
+const CLIMATES: readonly WeatherType[] = ['sunny', 'night', 'rain', 'winter'];
+const SINGLE_PAD_FOCUS_CHANCE = 0.3;
+// Chance of a focused pad type replacing a plain pad.
+const FOCUSED_PAD_CHANCE = 0.8;
+
+const CLIMATE_PREFIXES: Record<WeatherType, string> = {
+  sunny: 'Sunny',
+  night: 'Midnight',
+  rain: 'Rainy',
+  winter: 'Frozen',
+  desert: 'Desert',
+  space: 'Space',
+};
+
+const BEE_NAMES = ['Bee Bonanza', 'Swarm Survival', 'Buzzing Madness', 'Bee Invasion'];
+const DRAGONFLY_NAMES = ['Dragonfly Dash', 'Wings of Fury', 'Aerial Assault', 'Sky Hunters'];
+const MIXED_NAMES = ['Chaos Run', 'Mixed Mayhem', 'Survival Sprint', 'Gauntlet Run'];
+
+/** A date as the `yyyy-MM-dd` key challenges and results go by, in local time. */
+export function dateKey(date: Date) {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/** A stable 32-bit seed for a date key (FNV-1a). */
+export function dateSeed(date: string) {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < date.length; i++) {
+    hash ^= date.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/** The challenge for the day keyed `date`; always the same for the same date. */
+export function createDailyChallenge(date: string): DailyChallenge {
+  const seed = dateSeed(date);
+  const random = createRandom(seed);
+
+  const climate = pick(random, CLIMATES);
+  const focusEnemyTypes: EnemyFocusType[] =
+    random() < 0.5 ? [pick(random, ['bee', 'dragonfly'] as const)] : ['mixed'];
+  const focusPadTypes: PadFocusType[] =
+    random() < SINGLE_PAD_FOCUS_CHANCE ? [pick(random, ['moving', 'shrinking', 'ice', 'normal'] as const)] : ['mixed'];
+
+  let name: string;
+  let description: string;
+  if (focusEnemyTypes.includes('bee')) {
+    name = pick(random, BEE_NAMES);
+    description = 'Bees everywhere! Watch out for the swarm!';
+  } else if (focusEnemyTypes.includes('dragonfly')) {
+    name = pick(random, DRAGONFLY_NAMES);
+    description = 'Fast and fierce dragonflies dominate the skies!';
+  } else {
+    name = pick(random, MIXED_NAMES);
+    description = 'A variety of threats await!';
+  }
+
+  if (focusPadTypes.includes('moving')) {
+    name = `Moving ${name}`;
+    description += " And the pads won't stay still!";
+  } else if (focusPadTypes.includes('shrinking')) {
+    name = `Shrinking ${name}`;
+    description += ' Pads are disappearing fast!';
+  } else if (focusPadTypes.includes('ice')) {
+    name = `Slippery ${name}`;
+    description += ' Ice pads make movement treacherous!';
+  }
+
+  return {
+    date,
+    seed,
+    climate,
+    focusEnemyTypes,
+    focusPadTypes,
+    name: `${CLIMATE_PREFIXES[climate]} ${name}`,
+    description,
+  };
+}
+
+/** Today's challenge. */
+export function todaysChallenge() {
+  return createDailyChallenge(dateKey(new Date()));
+}
+
+/**
+ * The challenge's take on a spawn chance `distance` metres in, or null to
+ * keep the usual rule. Enemies come thick and fast, more so with a single
+ * focus; pads and hazards outside the focus stay away, and mixed days keep
+ * the usual chances for them.
+ */
+export function dailySpawnChance(challenge: DailyChallenge, entity: SpawnEntity, distance: number): number | null {
+  const enemies = challenge.focusEnemyTypes;
+  const pads = challenge.focusPadTypes;
+  const mixed = enemies.includes('mixed');
+  const enemyChance = dailyEnemyChance(challenge, distance);
+
+  switch (entity) {
+    case 'enemy':
+      return Math.min(1, enemyChance);
+    case 'dragonfly':
+      if (enemies.includes('bee')) return 0;
+      return enemies.includes('dragonfly') ? 1 : null;
+    case 'snake':
+      if (enemies.includes('snake')) return Math.min(1, enemyChance);
+      return mixed ? null : 0;
+    // Crocodiles and the logs they hide among come together.
+    case 'crocodile':
+      if (enemies.includes('crocodile')) return Math.min(1, enemyChance * 0.4);
+      return mixed ? null : 0;
+    case 'log':
+      if (enemies.includes('crocodile')) return Math.min(1, enemyChance * 0.6);
+      return mixed ? null : 0;
+    case 'movingPad':
+      return padChance(pads, 'moving');
+    case 'shrinkingPad':
+      return padChance(pads, 'shrinking');
+    case 'icePad':
+      return padChance(pads, 'ice');
+  }
+}
+
+/** Adds an attempt to the day's result, keeping the best time and distance. */
+export function addDailyRun(result: DailyChallengeResult | undefined, run: DailyRun): DailyChallengeResult {
+  const next = result ?? { date: run.date, bestTime: 0, bestDistance: 0, attempts: 0, completed: false };
+  return {
+    date: run.date,
+    bestTime: run.completed && (next.bestTime === 0 || run.time < next.bestTime) ? run.time : next.bestTime,
+    bestDistance: Math.max(next.bestDistance, run.distance),
+    attempts: next.attempts + 1,
+    completed: next.completed || run.completed,
+  };
+}
+
+/** A challenge time as `m:ss.t`. */
+export function formatDailyTime(seconds: number) {
+  const tenths = Math.floor(seconds * 10);
+  const minutes = Math.floor(tenths / 600);
+  const rest = (tenths % 600) / 10;
+  return `${minutes}:${rest.toFixed(1).padStart(4, '0')}`;
+}
+
+// Enemy chance before capping: it builds over the first 1000m, and a day
+// focused on one kind of flyer sends well over twice as many.
+function dailyEnemyChance(challenge: DailyChallenge, distance: number) {
+  const progress = Math.min(1, distance / 1000);
+  const base = 0.1 + progress * 0.3;
+  const focused = challenge.focusEnemyTypes.includes('bee') || challenge.focusEnemyTypes.includes('dragonfly');
+  return base * (focused ? 18.5 : 7);
+}
+
+// Only a single pad focus changes anything: its type takes over and the others stay away.
+function padChance(pads: readonly PadFocusType[], type: PadFocusType) {
+  const focus = pads.find((pad) => pad === 'moving' || pad === 'shrinking' || pad === 'ice');
+  if (!focus) return null;
+  return focus === type ? FOCUSED_PAD_CHANCE : 0;
+}
+
+function pick<T>(random: Random, items: readonly T[]): T {
+  return items[randomInt(random, 0, items.length - 1)];
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { Configuration, SpawnEntity, SpawnRule } from './config';
+import { canSpawnPadType, DifficultyDirector, difficultyLevel } from './difficulty';
+
+const { scalingInterval } = Configuration.Difficulty;
+
+function scoreAt(level: number) {
+  return level * scalingInterval;
+}
+
+/** Rules where every entity shares `rule`, so one entity can be tested alone. */
+function rulesWith(rule: SpawnRule): Record<SpawnEntity, SpawnRule> {
+  return {
+    enemy: rule,
+    dragonfly: rule,
+    log: rule,
+    movingPad: rule,
+    icePad: rule,
+    shrinkingPad: rule,
+    snake: rule,
+    crocodile: rule,
+  };
+}
+
+describe('difficultyLevel', () => {
+  it('goes up once every scaling interval', () => {
+    expect(difficultyLevel(0)).toBe(0);
+    expect(difficultyLevel(scalingInterval - 1)).toBe(0);
+    expect(difficultyLevel(scalingInterval)).toBe(1);
+    expect(difficultyLevel(scoreAt(3) + 10)).toBe(3);
+  });
+});
+
+describe('DifficultyDirector', () => {
+  const rule: SpawnRule = { startLevel: 2, base: 0.2, perLevel: 0.1, max: 0.45, weathers: { sunny: 1, night: 0.5 } };
+
+  it('never spawns an entity before its start level', () => {
+    const director = new DifficultyDirector(rulesWith(rule));
+    director.update(scoreAt(1), 'sunny');
+    expect(director.chance('enemy')).toBe(0);
+  });
+
+  it('starts at the base chance and grows by the per-level step', () => {
+    const director = new DifficultyDirector(rulesWith(rule));
+    director.update(scoreAt(2), 'sunny');
+    expect(director.chance('enemy')).toBeCloseTo(0.2);
+    director.update(scoreAt(3), 'sunny');
+    expect(director.chance('enemy')).toBeCloseTo(0.3);
+  });
+
+  it('stops growing at the max chance', () => {
+    const director = new DifficultyDirector(rulesWith(rule));
+    director.update(scoreAt(20), 'sunny');
+    expect(director.chance('enemy')).toBeCloseTo(0.45);
+  });
+
+  it('scales the chance by the biome multiplier, and leaves out biomes without one', () => {
+    const director = new DifficultyDirector(rulesWith(rule));
+    director.update(scoreAt(3), 'night');
+    expect(director.chance('enemy')).toBeCloseTo(0.15);
+    director.update(scoreAt(3), 'desert');
+    expect(director.chance('enemy')).toBe(0);
+  });
+
+  it('waits for the start score of entities that turn up partway through a level', () => {
+    const director = new DifficultyDirector(rulesWith({ ...rule, startScore: scoreAt(2) + 100 }));
+    director.update(scoreAt(2), 'sunny');
+    expect(director.chance('enemy')).toBe(0);
+    director.update(scoreAt(2) + 100, 'sunny');
+    expect(director.chance('enemy')).toBeCloseTo(0.2);
+  });
+
+  it('reports level-ups and never goes back down a level', () => {
+    const director = new DifficultyDirector(rulesWith(rule));
+    expect(director.update(scoreAt(1) - 1, 'sunny')).toBe(false);
+    expect(director.update(scoreAt(1), 'sunny')).toBe(true);
+    expect(director.update(scoreAt(1) + 5, 'sunny')).toBe(false);
+    expect(director.update(0, 'sunny')).toBe(false);
+    expect(director.level).toBe(1);
+  });
+
+  it('follows the configured rules by default', () => {
+    const director = new DifficultyDirector();
+    director.update(scoreAt(3), 'sunny');
+    const { log } = Configuration.Difficulty.spawnRules;
+    expect(director.chance('log')).toBeCloseTo(Math.min(log.max, log.base + 2 * log.perLevel));
+    expect(director.chance('icePad')).toBe(0);
+  });
+});
+
+describe('canSpawnPadType', () => {
+  it('keeps biome-bound pads to their biomes', () => {
+    expect(canSpawnPadType('ice', 'winter')).toBe(true);
+    expect(canSpawnPadType('ice', 'sunny')).toBe(false);
+    expect(canSpawnPadType('log', 'space')).toBe(false);
+  });
+
+  it('allows pad types without a rule everywhere', () => {
+    expect(canSpawnPadType('normal', 'space')).toBe(true);
+    expect(canSpawnPadType('grave', 'desert')).toBe(true);
+  });
+});
@@ -0,0 +1,72 @@
+// Difficulty scaling, ported from the level-based spawn chances in
+// Configuration.swift. The director turns the rules in
+// `Configuration.Difficulty.spawnRules` into spawn chances: at the run's level
+// and biome for the entity spawner, and anywhere along the river for the river
+// generator, which lays out each slice by where it sits.
+
+import { Configuration, PadType, SpawnEntity, SpawnRule, WeatherType } from './config';
+
+// Pad types that only exist in some biomes, and the rule that says which.
+const PAD_RULES: Partial<Record<PadType, SpawnEntity>> = {
+  moving: 'movingPad',
+  ice: 'icePad',
+  shrinking: 'shrinkingPad',
+  log: 'log',
+};
+
+export function difficultyLevel(score: number) {
+  return Math.floor(score / Configuration.Difficulty.scalingInterval);
+}
+
+/** Whether a pad type may exist in the given weather; types without a rule spawn everywhere. */
+export function canSpawnPadType(type: PadType, weather: WeatherType) {
+  const entity = PAD_RULES[type];
+  return !entity || (Configuration.Difficulty.spawnRules[entity].weathers[weather] ?? 0) > 0;
+}
+
+/** Replaces the chance of `entity` at `score`; null leaves the rule's chance. */
+export type SpawnChanceOverride = (entity: SpawnEntity, score: number) => number | null;
+
+export class DifficultyDirector {
+  // Best score so far; falling back down the river never lowers the difficulty.
+  private score = 0;
+  private weather: WeatherType = 'sunny';
+
+  constructor(
+    private readonly rules: Readonly<Record<SpawnEntity, SpawnRule>> = Configuration.Difficulty.spawnRules,
+    private readonly override?: SpawnChanceOverride,
+  ) {}
+
+  get level() {
+    return difficultyLevel(this.score);
+  }
+
+  /** Catches up with the run; returns whether the level went up. */
+  update(score: number, weather: WeatherType) {
+    const previous = this.level;
+    this.score = Math.max(this.score, score);
+    this.weather = weather;
+    return this.level > previous;
+  }
+
+  /** Back to the easiest level, for a fresh loop through the biomes. */
+  reset() {
+    this.score = 0;
+  }
+
+  /** Chance of `entity` spawning at the current level and biome. */
+  chance(entity: SpawnEntity) {
+    return this.chanceAt(entity, this.score, this.weather);
+  }
+
+  /** Chance of `entity` spawning `score` into a loop in `weather`, wherever the run has got to. */
+  chanceAt(entity: SpawnEntity, score: number, weather: WeatherType) {
+    const chance = this.override?.(entity, score) ?? null;
+    if (chance !== null) return chance;
+    const { startLevel, startScore = 0, base, perLevel, max, weathers } = this.rules[entity];
+    const multiplier = weathers[weather] ?? 0;
+    const level = difficultyLevel(score);
+    if (multiplier <= 0 || level < startLevel || score < startScore) return 0;
+    return Math.min(max, base + (level - startLevel) * perLevel) * multiplier;
+  }
+}
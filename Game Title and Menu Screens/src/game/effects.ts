@@ -0,0 +1,241 @@
+// Weapon attack effects, after HoneyAttackAnimation, SwatterAttackAnimation,
+// AxeAttackAnimation and CrossAttackAnimation on iOS. An effect picks the
+// nearest valid target, sends a projectile from the frog along its path,
+// reports the hit, then plays the target's exit before cleaning itself up.
+// A new weapon only needs an entry in ABILITY_EFFECTS and its sprite.
+
+import { Configuration } from './config';
+import { AbilityEffect, EnemyType, ItemTarget, Vec2, World } from './types';
+
+export type WeaponType = 'honey' | 'swatter' | 'axe' | 'cross';
+
+/** What an axe goes for, in order of preference. Cacti aren't in the web game yet. */
+export type AxeTargetType = 'snake' | 'log';
+
+/** Anything a weapon can be aimed at: an enemy type, or a log. */
+export type EffectTargetType = EnemyType | 'log';
+
+/** How the projectile gets to its target. A held weapon stays raised over the frog. */
+export type EffectPath = 'straight' | 'arc' | 'held';
+
+/** How the target leaves once hit. */
+export type TargetExit = 'fade' | 'flyAway' | 'chop' | 'dissolve';
+
+/** Offset (in world units), turn, size and opacity of something being drawn. */
+export interface EffectTransform {
+  dx: number;
+  dy: number;
+  rotation: number;
+  scale: number;
+  alpha: number;
+}
+
+export interface AbilityEffectSpec {
+  sprite: string;
+  /** Target types in order of preference; the nearest of the first type in range wins. */
+  targets: readonly EffectTargetType[];
+  range: number;
+  path: EffectPath;
+  flightDuration: number;
+  /** Full turns the projectile makes on the way. */
+  spins: number;
+  /** Projectile scale on impact; it grows from 1. */
+  impactScale: number;
+  exit: TargetExit;
+  exitDuration: number;
+}
+
+const AXE_TARGETS: readonly AxeTargetType[] = ['snake', 'log'];
+
+// Timings from the iOS animations.
+export const ABILITY_EFFECTS: Record<WeaponType, AbilityEffectSpec> = {
+  honey: {
+    sprite: 'honeyPot',
+    targets: ['bee'],
+    range: 300,
+    path: 'arc',
+    flightDuration: 0.3,
+    spins: 1,
+    impactScale: 1,
+    exit: 'fade',
+    exitDuration: 0.35,
+  },
+  swatter: {
+    sprite: 'swatter',
+    targets: ['dragonfly'],
+    range: 300,
+    path: 'arc',
+    flightDuration: 0.15,
+    spins: 0.75,
+    impactScale: 1.3,
+    exit: 'flyAway',
+    exitDuration: 0.5,
+  },
+  axe: {
+    sprite: 'ax',
+    targets: AXE_TARGETS,
+    range: 300,
+    path: 'straight',
+    flightDuration: 0.25,
+    spins: 4,
+    impactScale: 1.2,
+    exit: 'chop',
+    exitDuration: 0.4,
+  },
+  cross: {
+    sprite: 'cross',
+    targets: ['ghost'],
+    range: 300,
+    path: 'held',
+    flightDuration: 0.5,
+    spins: 0,
+    impactScale: 1.3,
+    exit: 'dissolve',
+    exitDuration: 0.6,
+  },
+};
+
+// Projectiles fly at about an enemy's height; arcs peak this much higher,
+// and a held weapon is raised this high over the frog.
+const PROJECTILE_HEIGHT = 20;
+const ARC_HEIGHT = 40;
+const HELD_HEIGHT = 50;
+// Logs are long, so their middle may sit a little further out.
+const LOG_REACH_BONUS = 20;
+// How far a swatted dragonfly is knocked back.
+const FLY_AWAY_DISTANCE = 80;
+
+/** The nearest of `candidates` within `range` of `from`, allowing for the frog's size. */
+export function nearestTo<T extends Vec2>(from: Vec2, candidates: readonly T[], range: number): T | null {
+  let best: T | null = null;
+  let bestDistance = range + Configuration.Dimensions.frogRadius;
+  for (const candidate of candidates) {
+    const distance = Math.hypot(candidate.x - from.x, candidate.y - from.y);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+/** The nearest thing `spec` works on, trying its target types in order. */
+export function selectEffectTarget(world: World, spec: AbilityEffectSpec): ItemTarget | null {
+  const { frog } = world;
+  for (const type of spec.targets) {
+    if (type === 'log') {
+      const logs = world.pads.filter((pad) => pad.type === 'log');
+      const pad = nearestTo(frog, logs, spec.range + LOG_REACH_BONUS);
+      if (pad) return { type: 'pad', pad };
+    } else {
+      const enemies = world.enemies.filter((enemy) => enemy.type === type && !enemy.isBeingDestroyed);
+      const enemy = nearestTo(frog, enemies, spec.range);
+      if (enemy) return { type: 'enemy', enemy };
+    }
+  }
+  return null;
+}
+
+/** Where a target is, including how high it flies. */
+export function targetPosition(target: ItemTarget) {
+  return target.type === 'enemy' ? target.enemy : { x: target.pad.x, y: target.pad.y, z: 0 };
+}
+
+/** How a target that has been hit is drawn `progress` (0 to 1) into its exit. */
+export function exitTransform(effect: AbilityEffect, progress: number): EffectTransform {
+  const transform: EffectTransform = { dx: 0, dy: 0, rotation: 0, scale: 1, alpha: 1 - progress };
+  switch (ABILITY_EFFECTS[effect.weapon].exit) {
+    case 'fade':
+      transform.scale = 1 - progress * 0.3;
+      break;
+    case 'flyAway': {
+      // Knocked away from the frog, spinning and wobbling.
+      const target = targetPosition(effect.target);
+      const angle = Math.atan2(target.y - effect.originY, target.x - effect.originX);
+      transform.dx = Math.cos(angle) * FLY_AWAY_DISTANCE * progress + Math.sin(progress * Math.PI * 4) * 20;
+      transform.dy = Math.sin(angle) * FLY_AWAY_DISTANCE * progress;
+      transform.rotation = progress * Math.PI * 4;
+      transform.scale = 1 - progress * 0.7;
+      break;
+    }
+    case 'chop':
+      transform.dx = Math.sin(progress * 40) * 8 * (1 - progress);
+      transform.rotation = progress * 0.3;
+      transform.scale = 1 - progress * 0.4;
+      break;
+    case 'dissolve':
+      transform.dy = progress * 30;
+      transform.rotation = progress * Math.PI * 2;
+      transform.scale = 1 - progress * 0.99;
+      break;
+  }
+  return transform;
+}
+
+/**
+ * Runs weapon effects from launch to cleanup. `onHit` is called once per
+ * effect, when the projectile reaches its target.
+ */
+export class AbilityEffectSystem {
+  private nextId = 0;
+
+  constructor(private readonly onHit: (effect: AbilityEffect) => void) {}
+
+  /** Sends `weapon` from the frog at `target`, which can't hurt the frog any more. */
+  launch(world: World, weapon: WeaponType, target: ItemTarget) {
+    const { frog } = world;
+    if (target.type === 'enemy') target.enemy.isBeingDestroyed = true;
+    const effect: AbilityEffect = {
+      id: this.nextId++,
+      weapon,
+      target,
+      phase: 'flying',
+      elapsed: 0,
+      originX: frog.x,
+      originY: frog.y,
+      x: frog.x,
+      y: frog.y,
+      z: PROJECTILE_HEIGHT,
+      rotation: 0,
+      scale: 1,
+    };
+    world.effects.push(effect);
+    return effect;
+  }
+
+  update(world: World, dt: number) {
+    for (const effect of world.effects) {
+      effect.elapsed += dt;
+      if (effect.phase !== 'flying') continue;
+      const spec = ABILITY_EFFECTS[effect.weapon];
+      const t = Math.min(1, effect.elapsed / spec.flightDuration);
+      this.moveProjectile(effect, spec, world, t);
+      if (t >= 1) {
+        effect.phase = 'exiting';
+        effect.elapsed = 0;
+        this.onHit(effect);
+      }
+    }
+    world.effects = world.effects.filter(
+      (effect) => effect.phase === 'flying' || effect.elapsed < ABILITY_EFFECTS[effect.weapon].exitDuration,
+    );
+  }
+
+  private moveProjectile(effect: AbilityEffect, spec: AbilityEffectSpec, world: World, t: number) {
+    effect.rotation = spec.spins * Math.PI * 2 * t;
+    effect.scale = 1 + (spec.impactScale - 1) * t;
+    if (spec.path === 'held') {
+      effect.x = world.frog.x;
+      effect.y = world.frog.y;
+      effect.z = HELD_HEIGHT * Math.min(1, t * 3);
+      return;
+    }
+    // Projectiles home in on the target as it moves.
+    const target = targetPosition(effect.target);
+    const eased = spec.path === 'straight' ? t * t : t;
+    effect.x = effect.originX + (target.x - effect.originX) * eased;
+    effect.y = effect.originY + (target.y - effect.originY) * eased;
+    effect.z = PROJECTILE_HEIGHT + (target.z - PROJECTILE_HEIGHT) * eased;
+    if (spec.path === 'arc') effect.z += Math.sin(Math.PI * t) * ARC_HEIGHT;
+  }
+}
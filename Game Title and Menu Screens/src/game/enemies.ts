@@ -0,0 +1,115 @@
+// Enemy movement, ported from the `Enemy` and `Snake` entities on iOS.
+// Bees circle where they spawned, dragonflies dive down the river, ghosts
+// drift after the frog and snakes slither across from the left bank.
+
+import { Configuration } from './config';
+import { Enemy, EnemyType, Frog, Pad, Vec2 } from './types';
+
+// Flying enemies hover at about the height of a frog's hop; snakes sit on the water.
+const FLYING_HEIGHT = 20;
+const SNAKE_HEIGHT = 5;
+
+const BEE_ORBIT_RADIUS = 40;
+const BEE_ORBIT_SPEED = 3;
+// A bee whose circle the frog comes near follows it, slower than a hop.
+const BEE_CHASE_RANGE = 250;
+const BEE_CHASE_SPEED = 35;
+const DRAGONFLY_SPEED = 150;
+const DRAGONFLY_WEAVE = 10;
+const GHOST_SPEED = 60;
+
+// Snakes move a fixed distance per step, like the per-frame iOS movement.
+const SNAKE_SPEED = 2.5;
+// Snakes steer around logs within this box and swell while over a pad.
+const SNAKE_LOG_RANGE_X = 80;
+const SNAKE_LOG_RANGE_Y = 60;
+const SNAKE_LOG_DODGE = 1.5;
+const SNAKE_PAD_MARGIN = 10;
+const SNAKE_PAD_SCALE = 1.2;
+const SNAKE_SCALE_LERP = 0.1;
+// Snakes start just past the left bank and are done once past the right one.
+export const SNAKE_START_X = -50;
+const SNAKE_EXIT_MARGIN = 50;
+
+export function createEnemy(id: number, type: EnemyType, x: number, y: number): Enemy {
+  return {
+    id,
+    type,
+    x,
+    y,
+    z: type === 'snake' ? SNAKE_HEIGHT : FLYING_HEIGHT,
+    originX: x,
+    originY: y,
+    angle: 0,
+    scale: 1,
+    isBeingDestroyed: false,
+  };
+}
+
+/** Advances one enemy by a fixed step. */
+export function updateEnemy(enemy: Enemy, dt: number, frog: Frog, pads: readonly Pad[]) {
+  switch (enemy.type) {
+    case 'bee':
+      updateBee(enemy, dt, frog);
+      break;
+    case 'dragonfly':
+      enemy.y -= DRAGONFLY_SPEED * dt;
+      enemy.x = enemy.originX + Math.sin(enemy.angle * 5) * DRAGONFLY_WEAVE;
+      enemy.angle += dt;
+      break;
+    case 'ghost':
+      moveToward(enemy, frog.x, frog.y, GHOST_SPEED * dt);
+      break;
+    case 'snake':
+      updateSnake(enemy, pads);
+      break;
+  }
+}
+
+/** Whether a snake has made it all the way across the river. */
+export function hasCrossedRiver(enemy: Enemy) {
+  return enemy.type === 'snake' && enemy.x > Configuration.Dimensions.riverWidth + SNAKE_EXIT_MARGIN;
+}
+
+function updateBee(enemy: Enemy, dt: number, frog: Frog) {
+  const center: Vec2 = { x: enemy.originX, y: enemy.originY };
+  if (Math.hypot(frog.x - center.x, frog.y - center.y) < BEE_CHASE_RANGE) {
+    moveToward(center, frog.x, frog.y, BEE_CHASE_SPEED * dt);
+    enemy.originX = center.x;
+    enemy.originY = center.y;
+  }
+  enemy.angle += BEE_ORBIT_SPEED * dt;
+  enemy.x = enemy.originX + Math.cos(enemy.angle) * BEE_ORBIT_RADIUS;
+  enemy.y = enemy.originY + Math.sin(enemy.angle) * BEE_ORBIT_RADIUS;
+}
+
+function updateSnake(enemy: Enemy, pads: readonly Pad[]) {
+  enemy.x += SNAKE_SPEED;
+
+  let onPad = false;
+  for (const pad of pads) {
+    const dx = Math.abs(enemy.x - pad.x);
+    const dy = Math.abs(enemy.y - pad.y);
+    if (pad.type === 'log') {
+      if (dx < SNAKE_LOG_RANGE_X && dy < SNAKE_LOG_RANGE_Y) {
+        enemy.y += enemy.y < pad.y ? -SNAKE_LOG_DODGE : SNAKE_LOG_DODGE;
+      }
+    } else {
+      const reach = pad.radius * pad.scale + SNAKE_PAD_MARGIN;
+      if (dx < reach && dy < reach) onPad = true;
+    }
+  }
+
+  const targetScale = onPad ? SNAKE_PAD_SCALE : 1;
+  enemy.scale += (targetScale - enemy.scale) * SNAKE_SCALE_LERP;
+}
+
+function moveToward(point: Vec2, x: number, y: number, distance: number) {
+  const dx = x - point.x;
+  const dy = y - point.y;
+  const length = Math.hypot(dx, dy);
+  if (length <= 1) return;
+  const step = Math.min(distance, length);
+  point.x += (dx / length) * step;
+  point.y += (dy / length) * step;
+}
@@ -0,0 +1,1053 @@
+import {
+  Ability,
+  activateBuff,
+  createBuffs,
+  isBuffActive,
+  TimedBuff,
+  TimedBuffs,
+  updateBuffs,
+} from './buffs';
+import { isBelowView, updateCamera } from './camera';
+import { CollisionManager, HitOutcome } from './collisions';
+import {
+  breakCombo,
+  comboMultiplier,
+  createCombo,
+  hasComboTimedOut,
+  isComboMilestone,
+  landCombo,
+} from './combo';
+import { Configuration, WEATHER_TYPES, WeatherType } from './config';
+import {
+  CROCODILE_CARRY_REWARD,
+  isOverCrocodile,
+  startCarrying,
+  steerCrocodile,
+  stopCarrying,
+  updateCrocodile,
+} from './crocodiles';
+import { DAILY_FINISH_Y, DailyChallenge, dailySpawnChance, DailyRun, todaysChallenge } from './daily';
+import { DifficultyDirector } from './difficulty';
+import { updateEnemy } from './enemies';
+import { Emitter } from './events';
+import { ABILITY_EFFECTS, AbilityEffectSystem, WeaponType } from './effects';
+import {
+  createHealth,
+  isInvulnerable,
+  refillHearts,
+  startDrowning,
+  takeHit,
+  updateHealth,
+} from './health';
+import { findItemTarget, findRescuePad, ITEM_COOLDOWN, ITEM_TYPES, ItemType } from './items';
+import { GameLoop } from './loop';
+import { hitsLog, isSlippery, padDrift, updatePad } from './pads';
+import { constrainToRiver, jump, land, launchVelocity, stepFrog } from './physics';
+import { defaultProfile } from './profile';
+import { biomeSpriteNames, CanvasRenderer } from './renderer';
+import { SlingshotAim, SlingshotController } from './slingshot';
+import { createRandom, deriveSeed } from './random';
+import { createRace, Race, raceProgress, RaceResult, updateRace } from './race';
+import { RiverGenerator } from './river';
+import {
+  descend,
+  FROG_FALL_FRAME_COUNT,
+  ROCKET_EXPLODE_FRAME_COUNT,
+  ROCKET_RIDE_FRAME_COUNT,
+  rocketLandingPoint,
+  startRocket,
+  steerRocket,
+  updateRocket,
+} from './rocket';
+import { EntitySpawner } from './spawner';
+import { preloadSprites } from './sprites';
+import { LandingSurface, predictTrajectory } from './trajectory';
+import { TREASURE_PACK_SIZE, TREASURE_REWARDS, TreasureReward } from './treasure';
+import {
+  AbilityEffect,
+  Collectible,
+  Crocodile,
+  Enemy,
+  GameMode,
+  Inventory,
+  ItemTarget,
+  Pad,
+  RocketState,
+  TreasureChest,
+  Vec2,
+  World,
+} from './types';
+import { upgradeEffects, UpgradeEffects } from './upgrades';
+import { WeatherChange, WeatherSystem } from './weather';
+
+// A scroll saver drops its pad three quarters of the way up the screen,
+// kept this far from either bank.
+const RESCUE_HEIGHT = 0.75;
+const RESCUE_BANK_MARGIN = 80;
+const COIN_VALUE = 1;
+// A frog that gets this far past the launch pad without taking it has missed
+// it. Flying a rocket this close over the pad counts as taking it.
+const LAUNCH_PAD_MISS_DISTANCE = 300;
+const LAUNCH_PAD_ROCKET_RANGE = 150;
+// Tells the spawner's random stream apart from the river's.
+const SPAWNER_SEED_SALT = 0x9e3779b9;
+
+export interface GameEngineOptions {
+  /** Seed for the run's randomness; the same seed replays the same river. */
+  seed?: number;
+  /** Items the frog starts the run with, usually `carriedItems` of the profile. Empty-handed if left out. */
+  inventory?: Partial<Inventory>;
+  /** What the player's upgrades do to the run; see `upgradeEffects`. None if left out. */
+  upgrades?: UpgradeEffects;
+  mode?: GameMode;
+  /** Races won in a row before this one; each makes a Beat the Boat race longer. */
+  raceWinStreak?: number;
+  /** The challenge for a daily run; today's if left out. Its seed also lays out the river. */
+  daily?: DailyChallenge;
+}
+
+/** What came of tapping an item in the HUD; nothing can be used while the run is paused. */
+export type ItemUseResult = 'used' | 'paused' | 'empty' | 'coolingDown' | 'noTarget';
+
+/** What came of tapping an ability; a second tap on an armed cannon jump cancels it. */
+export type AbilityUseResult = 'activated' | 'cancelled' | 'empty' | 'unavailable';
+
+/** What the HUD shows; `cooldown` runs from 1 right after a use down to 0 when ready. */
+export interface HudState {
+  score: number;
+  items: Record<ItemType, { count: number; cooldown: number }>;
+  scrollSavers: number;
+  /** The rocket ride, with whole seconds left in its current state; null when not riding one. */
+  rocket: { state: RocketState; timeLeft: number } | null;
+  /** Uses left of each ability this run. */
+  abilities: Record<Ability, number>;
+  /** Whole seconds left on each timed buff; 0 while it's off. */
+  buffs: TimedBuffs;
+  cannonArmed: boolean;
+  hearts: { count: number; max: number };
+  /** Whole seconds left to get out of the water before losing another heart; 0 when not drowning. */
+  drowning: number;
+  /** The landing combo and the score multiplier it gives; `count` is 0 with no combo going. */
+  combo: { count: number; multiplier: number; invincible: boolean };
+  /**
+   * In a race, whole seconds left of the countdown and how far along the
+   * course the frog and the boat are, from 0 to 1; null in other modes.
+   */
+  race: { countdown: number; frog: number; boat: number } | null;
+  /** In a daily run, whole seconds so far and metres left to the finish line; null in other modes. */
+  daily: { time: number; distanceLeft: number } | null;
+}
+
+/**
+ * Why a run ended: the river left the frog behind, enemies took its last
+ * heart, it ran out of hearts in the water, it fell onto the desert floor
+ * (always fatal, vest or not), it fell into space and drifted off or it
+ * went past the launch pad. A race also ends when the boat or the frog
+ * crosses the finish line, and a daily run when the frog reaches its finish.
+ */
+export type GameOverReason =
+  | 'scrolledOffScreen'
+  | 'outOfHealth'
+  | 'drowned'
+  | 'fellInDesert'
+  | 'floatedAway'
+  | 'missedLaunchPad'
+  | 'outrun'
+  | 'wonRace'
+  | 'completedChallenge';
+
+/** How a run went, for the game over screen and the player's records. */
+export interface RunSummary {
+  mode: GameMode;
+  reason: GameOverReason;
+  /** How a race went; null outside Beat the Boat. */
+  race: RaceResult | null;
+  /** How the day's challenge went; null outside daily runs. */
+  daily: DailyRun | null;
+  score: number;
+  /** Distance travelled, in the units biomes start at. */
+  distance: number;
+  /** Distance travelled in each biome visited. */
+  distanceByBiome: Partial<Record<WeatherType, number>>;
+  coins: number;
+  bestCombo: number;
+}
+
+/** What cost the frog a heart. */
+export type DamageCause = 'enemy' | 'water';
+
+/** Background music the game asks for; `gameplay` is the current biome's track. */
+export type MusicCue = 'gameplay' | 'crocRomp' | 'rocketFlight' | 'superJump';
+
+/** Everything the engine reports to the outside world, keyed by event name. */
+export interface GameEvents {
+  land: { pad: Pad };
+  /** The frog fell in; with a life vest it floats safely instead of losing a heart. */
+  fallIntoWater: { x: number; y: number; savedByVest: boolean };
+  heartLost: { cause: DamageCause; hearts: number };
+  obstacleHit: { pad: Pad; outcome: HitOutcome };
+  enemyHit: { enemy: Enemy; outcome: HitOutcome };
+  /** The frog picked up `item`, worth `coins` with the combo multiplier. */
+  collect: { item: Collectible; coins: number };
+  crocodileRideStart: { crocodile: Crocodile };
+  /** The frog rode a crocodile for the full duration and earned `reward` coins. */
+  crocodileRideComplete: { crocodile: Crocodile; reward: number };
+  /** A ridden crocodile ate an enemy or ploughed through a pad. */
+  crocodileChomp: { target: Pad | Enemy };
+  music: { cue: MusicCue };
+  /** The rocket ride moved on to `state`; `none` once the frog is back down. */
+  rocket: { state: RocketState };
+  abilityUsed: { ability: Ability; remaining: number };
+  buffExpired: { buff: TimedBuff };
+  /** The combo grew or broke; a count of 0 means it broke. */
+  combo: { count: number; multiplier: number; invincible: boolean };
+  /** The combo reached another multiple of five landings, at `score` points. */
+  comboMilestone: { count: number; score: number };
+  /**
+   * The frog landed on a chest and got `reward`. Gameplay is paused so the
+   * reward can be shown; call `start()` to carry on.
+   */
+  treasureOpened: { chest: TreasureChest; reward: TreasureReward };
+  /** The race countdown is over and the boat is off. */
+  raceStart: { finishY: number };
+  /** A cannon jump came down and blew away every enemy on screen. */
+  cannonLanding: { pad: Pad; enemies: Enemy[] };
+  /** The run reached a new difficulty level. */
+  difficultyLevel: { level: number };
+  /** The biome changed; the crossfade to the new one has just started. */
+  weatherTransition: WeatherChange;
+  /** A scroll saver caught the frog as it dropped off screen and set it down on `pad`. */
+  scrollSaverRescue: { pad: Pad; remaining: number };
+  gameOver: RunSummary;
+  itemUsed: { item: WeaponType; target: ItemTarget };
+  /** A weapon reached its target, which is now gone. */
+  weaponHit: { weapon: WeaponType; target: ItemTarget };
+  /** Something the HUD shows changed. */
+  hud: HudState;
+}
+
+function createWorld(
+  river: RiverGenerator,
+  inventory: Partial<Inventory>,
+  upgrades: UpgradeEffects,
+  race: Race | null,
+  daily: DailyChallenge | null,
+): World {
+  const pads = river.createStartPads(0);
+  const start = pads[0];
+  return {
+    time: 0,
+    weather: daily?.climate ?? 'sunny',
+    weatherTransition: null,
+    frog: {
+      x: start.x,
+      y: start.y,
+      z: 0,
+      vx: 0,
+      vy: 0,
+      vz: 0,
+      onPadId: start.id,
+      isFloating: false,
+      ridingCrocodileId: null,
+      rocketState: 'none',
+      rocketTimer: 0,
+      cannonJump: 'none',
+    },
+    inventory: { honey: 0, swatter: 0, axe: 0, cross: 0, vest: 0, scrollSavers: 0, ...inventory },
+    abilities: { ...upgrades.abilities },
+    buffs: createBuffs(),
+    combo: createCombo(),
+    health: createHealth(upgrades.hearts),
+    pads,
+    enemies: [],
+    crocodiles: [],
+    collectibles: [],
+    treasureChests: [],
+    effects: [],
+    camera: { x: start.x, y: start.y, prevX: start.x, prevY: start.y },
+    aim: null,
+    trajectory: null,
+    rocketLanding: null,
+    race,
+    daily,
+  };
+}
+
+/**
+ * Hosts a single run of the game: owns the world state, advances it on a
+ * fixed timestep and draws it into the given canvas.
+ */
+export class GameEngine {
+  readonly world: World;
+  private readonly events = new Emitter<GameEvents>();
+  private readonly difficulty: DifficultyDirector;
+  private readonly river: RiverGenerator;
+  private readonly spawner: EntitySpawner;
+  private readonly weather = new WeatherSystem((change) => this.events.emit('weatherTransition', change));
+  private readonly collisions: CollisionManager;
+  private readonly effects = new AbilityEffectSystem((effect) => this.didHitWithWeapon(effect));
+  private readonly renderer: CanvasRenderer;
+  private readonly loop: GameLoop;
+  private readonly slingshot: SlingshotController;
+  // World time at which each item can be used again.
+  private readonly itemReadyAt = Object.fromEntries(ITEM_TYPES.map((item) => [item, 0])) as Record<ItemType, number>;
+  // Last HUD state sent out, to only report changes.
+  private lastHudKey = '';
+  private readonly upgrades: UpgradeEffects;
+  // Side of the screen held down while riding a rocket: -1 left, 1 right, 0 none.
+  private rocketSteer = 0;
+  // Points so far. Each new stretch of river is worth its distance times the
+  // combo multiplier at the time.
+  private score = 0;
+  private scoredDistance = 0;
+  private readonly distanceByBiome: Partial<Record<WeatherType, number>> = {};
+  private coins = 0;
+  private isOver = false;
+  private readonly mode: GameMode;
+  // The launch pad once it has turned up, until the frog takes it.
+  private launchPad: Pad | null = null;
+
+  constructor(
+    private readonly canvas: HTMLCanvasElement,
+    {
+      seed,
+      inventory = {},
+      upgrades = upgradeEffects(defaultProfile()),
+      mode = 'endless',
+      raceWinStreak = 0,
+      daily,
+    }: GameEngineOptions = {},
+  ) {
+    this.upgrades = upgrades;
+    this.mode = mode;
+    const challenge = mode === 'daily' ? (daily ?? todaysChallenge()) : null;
+    seed ??= challenge?.seed ?? Date.now();
+    this.difficulty = new DifficultyDirector(
+      undefined,
+      challenge ? (entity, distance) => dailySpawnChance(challenge, entity, distance) : undefined,
+    );
+    this.river = new RiverGenerator(createRandom(seed), this.difficulty, challenge?.climate);
+    this.spawner = new EntitySpawner(createRandom(deriveSeed(seed, SPAWNER_SEED_SALT)), this.difficulty);
+    const race = mode === 'beatTheBoat' ? createRace(raceWinStreak) : null;
+    this.world = createWorld(this.river, inventory, upgrades, race, challenge);
+    this.collisions = new CollisionManager(
+      {
+        didLand: (pad) => this.didLand(pad),
+        didFallIntoWater: () => this.didFallIntoWater(),
+        didHitObstacle: (pad) => this.didHitObstacle(pad),
+        didCrash: (enemy) => this.didCrash(enemy),
+        didCollect: (item) => this.didCollect(item),
+        didLandOnCrocodile: (croc) => this.didLandOnCrocodile(croc),
+        didCompleteCrocodileRide: (croc) => this.didCompleteCrocodileRide(croc),
+        crocodileDidDestroyPad: (pad) => this.events.emit('crocodileChomp', { target: pad }),
+        crocodileDidDestroyEnemy: (enemy) => this.events.emit('crocodileChomp', { target: enemy }),
+      },
+      { canLandOnLogs: upgrades.canLandOnLogs },
+    );
+    this.renderer = new CanvasRenderer(canvas);
+    this.loop = new GameLoop({
+      update: (dt) => this.update(dt),
+      render: (alpha) => this.renderer.render(this.world, alpha),
+    });
+    this.slingshot = new SlingshotController(canvas, {
+      // While riding a crocodile or a rocket, taps steer it instead. No
+      // jumping the gun before a race starts, either.
+      canAim: () => {
+        const { frog, race } = this.world;
+        if (race && race.countdown > 0) return false;
+        return this.loop.isRunning && frog.z <= 0.1 && frog.ridingCrocodileId === null && frog.rocketState === 'none';
+      },
+      onAim: (aim) => {
+        this.world.aim = aim;
+        this.updateTrajectory();
+      },
+      onRelease: (aim) => {
+        this.world.aim = null;
+        this.world.trajectory = null;
+        this.launchFrog(aim);
+      },
+    });
+    canvas.addEventListener('pointerdown', this.handleSteer);
+    canvas.addEventListener('pointerup', this.handleSteerEnd);
+    canvas.addEventListener('pointercancel', this.handleSteerEnd);
+    preloadSprites(['frogSit', 'frogJump1', 'frogRecoil', 'LilypadShrink', 'star', 'treasureChest']);
+    if (race) preloadSprites(['boat', 'finishLine']);
+    if (challenge) preloadSprites(['finishLine']);
+    preloadSprites(Object.values(ABILITY_EFFECTS).map((spec) => spec.sprite));
+    preloadSprites([
+      ...frames('rocketRide', ROCKET_RIDE_FRAME_COUNT),
+      ...frames('rocketExplode', ROCKET_EXPLODE_FRAME_COUNT),
+      ...frames('frogFall', FROG_FALL_FRAME_COUNT),
+    ]);
+    // Every biome's artwork, so crossfades never show placeholder shapes.
+    preloadSprites(WEATHER_TYPES.flatMap(biomeSpriteNames));
+  }
+
+  /** Subscribes to a game event; returns the unsubscribe function. */
+  on<K extends keyof GameEvents>(event: K, handler: (payload: GameEvents[K]) => void) {
+    return this.events.on(event, handler);
+  }
+
+  get isRunning() {
+    return this.loop.isRunning;
+  }
+
+  /** Longest landing combo so far this run. */
+  get bestCombo() {
+    return this.world.combo.best;
+  }
+
+  get hud(): HudState {
+    const { world } = this;
+    const items = Object.fromEntries(
+      ITEM_TYPES.map((item) => {
+        const remaining = Math.max(0, this.itemReadyAt[item] - world.time) / ITEM_COOLDOWN;
+        // Coarse steps keep the HUD from re-rendering every frame of a cooldown.
+        return [item, { count: world.inventory[item], cooldown: Math.ceil(remaining * 20) / 20 }];
+      }),
+    ) as HudState['items'];
+    const { rocketState, rocketTimer } = world.frog;
+    const rocket = rocketState === 'none' ? null : { state: rocketState, timeLeft: Math.ceil(rocketTimer) };
+    return {
+      score: Math.floor(this.score),
+      items,
+      scrollSavers: world.inventory.scrollSavers,
+      rocket,
+      abilities: { ...world.abilities },
+      buffs: { superJump: Math.ceil(world.buffs.superJump), boots: Math.ceil(world.buffs.boots) },
+      cannonArmed: world.frog.cannonJump === 'armed',
+      hearts: { count: world.health.hearts, max: world.health.maxHearts },
+      drowning: Math.ceil(world.health.drowning),
+      combo: this.comboState,
+      race: world.race && {
+        countdown: Math.ceil(world.race.countdown),
+        // Coarse steps keep the HUD from re-rendering every frame of the race.
+        frog: Math.floor(raceProgress(world.race, world.frog.y) * 200) / 200,
+        boat: Math.floor(raceProgress(world.race, world.race.boat.y) * 200) / 200,
+      },
+      daily: world.daily && {
+        time: Math.floor(world.time),
+        distanceLeft: Math.max(0, Math.ceil((DAILY_FINISH_Y - world.frog.y) / 10)),
+      },
+    };
+  }
+
+  /** Uses one of `item` on the nearest thing it works on. */
+  useItem(item: WeaponType): ItemUseResult {
+    const { world } = this;
+    if (!this.loop.isRunning) return 'paused';
+    if (world.inventory[item] <= 0) return 'empty';
+    if (world.time < this.itemReadyAt[item]) return 'coolingDown';
+    const target = findItemTarget(world, item);
+    if (!target) return 'noTarget';
+
+    world.inventory[item]--;
+    this.itemReadyAt[item] = world.time + ITEM_COOLDOWN;
+    this.effects.launch(world, item, target);
+    this.events.emit('itemUsed', { item, target });
+    this.updateHud();
+    return 'used';
+  }
+
+  /** Puts the frog on a rocket; returns false if it's already riding one. */
+  launchRocket() {
+    const { world } = this;
+    if (world.frog.rocketState !== 'none') return false;
+    this.endRide();
+    this.slingshot.cancel();
+    world.aim = null;
+    world.trajectory = null;
+    startRocket(world.frog, this.upgrades.rocketDuration);
+    this.events.emit('rocket', { state: 'flying' });
+    this.updateMusic();
+    this.updateHud();
+    return true;
+  }
+
+  /** Cuts the rocket ride short and drops the frog; returns false if there's no ride to end. */
+  descendRocket() {
+    const { frog } = this.world;
+    if (!this.loop.isRunning) return false;
+    if (frog.rocketState !== 'flying' && frog.rocketState !== 'landing') return false;
+    descend(frog);
+    this.events.emit('rocket', { state: 'descending' });
+    this.updateHud();
+    return true;
+  }
+
+  /**
+   * Sets off one use of `ability`. A cannon jump is only armed here, from a
+   * pad; it goes off with the next jump.
+   */
+  useAbility(ability: Ability): AbilityUseResult {
+    const { world } = this;
+    const { frog } = world;
+    if (!this.loop.isRunning) return 'unavailable';
+    if (ability === 'cannonJump' && frog.cannonJump === 'armed') {
+      frog.cannonJump = 'none';
+      this.updateHud();
+      return 'cancelled';
+    }
+    if (world.abilities[ability] <= 0) return 'empty';
+    if (frog.rocketState !== 'none') return 'unavailable';
+
+    switch (ability) {
+      case 'rocket':
+        this.launchRocket();
+        break;
+      case 'cannonJump':
+        if (frog.onPadId === null || frog.cannonJump !== 'none') return 'unavailable';
+        frog.cannonJump = 'armed';
+        // Used up when the frog jumps, not when armed.
+        this.updateHud();
+        return 'activated';
+      default:
+        activateBuff(world.buffs, ability, this.upgrades.buffDurations[ability]);
+        this.updateMusic();
+    }
+    world.abilities[ability]--;
+    this.events.emit('abilityUsed', { ability, remaining: world.abilities[ability] });
+    this.updateHud();
+    return 'activated';
+  }
+
+  /** Starts or resumes the run; a run that has ended stays over. */
+  start() {
+    if (this.isOver) return;
+    this.loop.start();
+  }
+
+  stop() {
+    this.slingshot.cancel();
+    this.loop.stop();
+  }
+
+  destroy() {
+    this.stop();
+    this.slingshot.destroy();
+    this.canvas.removeEventListener('pointerdown', this.handleSteer);
+    this.canvas.removeEventListener('pointerup', this.handleSteerEnd);
+    this.canvas.removeEventListener('pointercancel', this.handleSteerEnd);
+    this.events.clear();
+  }
+
+  resize(width: number, height: number, pixelRatio = window.devicePixelRatio || 1) {
+    this.renderer.resize(width, height, pixelRatio);
+    this.slingshot.resize(width, height);
+    this.updateRiver();
+    // Redraw right away so a resize while stopped doesn't leave a blank canvas.
+    this.renderer.render(this.world, 1);
+  }
+
+  // Tapping the left or right half of the screen steers the crocodile being
+  // ridden. A rocket turns that way for as long as the screen is held.
+  private handleSteer = (event: PointerEvent) => {
+    if (!this.loop.isRunning) return;
+    const rect = this.canvas.getBoundingClientRect();
+    const direction = event.clientX - rect.left < rect.width / 2 ? -1 : 1;
+    if (this.world.frog.rocketState !== 'none') {
+      this.rocketSteer = direction;
+      return;
+    }
+    const croc = this.ridingCrocodile();
+    if (croc) steerCrocodile(croc, direction);
+  };
+
+  private handleSteerEnd = () => {
+    this.rocketSteer = 0;
+  };
+
+  private launchFrog(aim: SlingshotAim) {
+    const { world } = this;
+    const { frog } = world;
+    if (frog.z > 0.1) return;
+    jump(frog, this.launchVelocity(aim));
+    if (frog.cannonJump === 'armed') {
+      frog.cannonJump = 'flying';
+      world.abilities.cannonJump--;
+      this.events.emit('abilityUsed', { ability: 'cannonJump', remaining: world.abilities.cannonJump });
+    }
+  }
+
+  private launchVelocity(aim: SlingshotAim) {
+    return launchVelocity(aim, { jumpLevel: this.upgrades.jumpLevel, superJump: isBuffActive(this.world.buffs, 'superJump') });
+  }
+
+  private updateTrajectory() {
+    const { world } = this;
+    if (!world.aim || world.aim.cancelled) {
+      world.trajectory = null;
+      return;
+    }
+    const launch = this.launchVelocity(world.aim);
+    world.trajectory = predictTrajectory(world.frog, launch, world.weather, (point) =>
+      this.surfaceAt(point),
+    );
+  }
+
+  /** What the frog would hit if it came down at the given point. */
+  private surfaceAt(point: Vec2): LandingSurface {
+    const { world } = this;
+    if (this.collisions.landingPadAt(world, point)) return 'pad';
+    const onCrocodile = world.crocodiles.some(
+      (croc) => croc.state !== 'submerged' && croc.state !== 'rising' && isOverCrocodile(croc, point),
+    );
+    if (onCrocodile) return 'pad';
+    return world.pads.some((pad) => hitsLog(pad, point)) ? 'hazard' : 'water';
+  }
+
+  private update(dt: number) {
+    const { world } = this;
+    const { frog, race } = world;
+    // Everything waits for the starting signal.
+    if (race && race.countdown > 0) {
+      this.updateRace(race, dt);
+      this.updateHud();
+      return;
+    }
+    world.time += dt;
+    for (const buff of updateBuffs(world.buffs, dt)) {
+      this.events.emit('buffExpired', { buff });
+      if (buff === 'superJump') this.updateMusic();
+    }
+    if (updateHealth(world.health, dt, frog.isFloating)) {
+      this.events.emit('heartLost', { cause: 'water', hearts: world.health.hearts });
+      if (world.health.hearts <= 0) this.gameOver('drowned');
+    }
+    for (const pad of world.pads) updatePad(pad, dt);
+    for (const enemy of world.enemies) updateEnemy(enemy, dt, frog, world.pads);
+    for (const croc of world.crocodiles) updateCrocodile(croc, dt, frog);
+    this.effects.update(world, dt);
+    this.spawner.update(world);
+    // A daily challenge keeps its climate all the way to the finish.
+    if (!world.daily) this.weather.update(world, this.distance, dt);
+    if (hasComboTimedOut(world.combo, world.time)) this.breakCombo();
+
+    if (frog.rocketState !== 'none') {
+      this.updateRocket(dt);
+    } else {
+      this.stepFrog();
+    }
+    // Up on a rocket the frog is out of reach of everything on the river.
+    if (frog.rocketState === 'none') this.collisions.update(world);
+
+    if (world.aim) this.updateTrajectory();
+    this.updateScore();
+    updateCamera(world.camera, frog, this.renderer.viewHeight, this.distance);
+    if (frog.rocketState === 'none' && isBelowView(world.camera, frog, this.renderer.viewHeight)) {
+      this.didScrollOffScreen();
+    }
+    this.checkLaunchPad();
+    if (race) this.updateRace(race, dt);
+    if (world.daily && frog.y >= DAILY_FINISH_Y) this.gameOver('completedChallenge');
+    this.updateRiver();
+    this.updateHud();
+  }
+
+  private updateRace(race: Race, dt: number) {
+    const starting = race.countdown > 0;
+    const result = updateRace(race, dt, this.world.frog.y);
+    if (starting && race.countdown === 0) this.events.emit('raceStart', { finishY: race.finishY });
+    if (result) this.gameOver(result.type === 'win' ? 'wonRace' : result.reason);
+  }
+
+  // The river stops at the launch pad, and the only way on is to take it.
+  // A rocket flying close over it counts; going past it ends the run.
+  private checkLaunchPad() {
+    const { world } = this;
+    const { frog } = world;
+    if (world.weather === 'space') {
+      this.launchPad = null;
+      return;
+    }
+    this.launchPad ??= world.pads.find((pad) => pad.type === 'launchPad') ?? null;
+    const pad = this.launchPad;
+    if (!pad) return;
+    const overPad = Math.abs(frog.y - pad.y) < LAUNCH_PAD_ROCKET_RANGE && Math.abs(frog.x - pad.x) < LAUNCH_PAD_ROCKET_RANGE;
+    if (frog.rocketState === 'flying' && overPad) {
+      this.weather.launch(world, this.distance);
+      this.river.passSpecialPad('launchPad');
+    } else if (frog.y > pad.y + LAUNCH_PAD_MISS_DISTANCE) {
+      this.gameOver('missedLaunchPad');
+    }
+  }
+
+  private stepFrog() {
+    const { world } = this;
+    const { frog } = world;
+    const standingOn = world.pads.find((pad) => pad.id === frog.onPadId);
+    stepFrog(frog, {
+      weather: world.weather,
+      groundDrift: standingOn ? padDrift(standingOn) : 0,
+      slippery: standingOn ? this.isSlippery(standingOn) : false,
+    });
+    constrainToRiver(frog);
+    // A riding frog just sits on the crocodile's back.
+    const croc = this.ridingCrocodile();
+    if (croc) {
+      frog.x = croc.x;
+      frog.y = croc.y;
+      frog.vx = 0;
+      frog.vy = 0;
+    }
+  }
+
+  // Once the flight is over, the frog hovers for a few seconds while the
+  // player picks where to come down; the marker shows where that would be.
+  private updateRocket(dt: number) {
+    const { world } = this;
+    const { frog } = world;
+    const previous = frog.rocketState;
+    if (this.rocketSteer !== 0) steerRocket(frog, this.rocketSteer);
+    const touchedDown = updateRocket(frog, dt, world.time);
+    constrainToRiver(frog);
+
+    if (frog.rocketState === 'landing' || frog.rocketState === 'descending') {
+      const point = rocketLandingPoint(frog);
+      world.rocketLanding = { ...point, surface: this.surfaceAt(point) };
+    } else {
+      world.rocketLanding = null;
+    }
+    if (frog.rocketState !== previous) this.events.emit('rocket', { state: frog.rocketState });
+    if (touchedDown) {
+      this.rocketSteer = 0;
+      this.updateMusic();
+    }
+  }
+
+  // Rain boots keep the frog's footing on rain-soaked and icy pads.
+  private isSlippery(pad: Pad) {
+    return isSlippery(pad, this.world.weather) && !isBuffActive(this.world.buffs, 'boots');
+  }
+
+  private didLand(pad: Pad) {
+    const { world } = this;
+    if (world.frog.cannonJump === 'flying') this.didLandCannonJump(pad);
+    land(world.frog, pad, { slippery: this.isSlippery(pad), isLog: pad.type === 'log' });
+    if (pad.type === 'launchPad') {
+      this.weather.launch(world, this.distance);
+      this.river.passSpecialPad('launchPad');
+    } else if (pad.type === 'warp') {
+      this.weather.warp(world, this.distance);
+      this.river.passSpecialPad('warp');
+      this.difficulty.reset();
+    }
+    this.spawner.disturbGrave(world, pad);
+    this.events.emit('land', { pad });
+    if (landCombo(world.combo, pad, world.time, this.upgrades.invincibleCombo)) this.didGrowCombo();
+    const chest = world.treasureChests.find((candidate) => candidate.padId === pad.id);
+    if (chest) this.openTreasureChest(chest);
+  }
+
+  private openTreasureChest(chest: TreasureChest) {
+    const { world } = this;
+    world.treasureChests = world.treasureChests.filter((other) => other !== chest);
+    const { item } = TREASURE_REWARDS[chest.reward];
+    if (item) world.inventory[item] += TREASURE_PACK_SIZE;
+    else refillHearts(world.health);
+    this.stop();
+    this.events.emit('treasureOpened', { chest, reward: chest.reward });
+    this.updateHud();
+  }
+
+  // The landing sends out a shockwave that takes every enemy on screen with it.
+  private didLandCannonJump(pad: Pad) {
+    const { world } = this;
+    const halfView = this.renderer.viewHeight / 2;
+    const hit = world.enemies.filter((enemy) => Math.abs(enemy.y - world.camera.y) <= halfView);
+    world.frog.cannonJump = 'none';
+    world.enemies = world.enemies.filter((enemy) => !hit.includes(enemy));
+    for (const enemy of hit) enemy.isBeingDestroyed = true;
+    this.events.emit('cannonLanding', { pad, enemies: hit });
+  }
+
+  private didHitWithWeapon({ weapon, target }: AbilityEffect) {
+    const { world } = this;
+    if (target.type === 'enemy') {
+      world.enemies = world.enemies.filter((enemy) => enemy !== target.enemy);
+    } else {
+      world.pads = world.pads.filter((pad) => pad !== target.pad);
+    }
+    this.events.emit('weaponHit', { weapon, target });
+  }
+
+  // A life vest is used up pulling the frog out onto the nearest pad in
+  // reach, or keeps it afloat if there's none. Without one it loses a heart
+  // and has a few seconds to jump out before it loses another. The desert
+  // floor is fatal either way, and in space the frog just drifts off.
+  private didFallIntoWater() {
+    const { world } = this;
+    const { frog, inventory, health } = world;
+    this.endRide();
+    frog.vx = 0;
+    frog.vy = 0;
+    frog.onPadId = null;
+    frog.isFloating = true;
+    frog.cannonJump = 'none';
+    this.breakCombo();
+
+    const savedByVest = world.weather !== 'desert' && inventory.vest > 0;
+    if (savedByVest) inventory.vest--;
+    this.events.emit('fallIntoWater', { x: frog.x, y: frog.y, savedByVest });
+    if (world.weather === 'desert') {
+      this.gameOver('fellInDesert');
+    } else if (savedByVest) {
+      const pad = findRescuePad(world);
+      if (pad) {
+        // Pulled out onto the pad, which counts as landing there.
+        frog.x = pad.x;
+        frog.y = pad.y;
+        this.didLand(pad);
+      }
+      this.updateHud();
+    } else if (world.weather === 'space') {
+      this.gameOver('floatedAway');
+    } else {
+      startDrowning(health);
+      this.events.emit('heartLost', { cause: 'water', hearts: health.hearts });
+      if (health.hearts <= 0) this.gameOver('drowned');
+    }
+  }
+
+  private didGrowCombo() {
+    const { combo } = this.world;
+    this.events.emit('combo', this.comboState);
+    if (isComboMilestone(combo.count)) {
+      this.events.emit('comboMilestone', { count: combo.count, score: Math.floor(this.score) });
+    }
+  }
+
+  private breakCombo() {
+    if (breakCombo(this.world.combo)) this.events.emit('combo', this.comboState);
+  }
+
+  private get comboState() {
+    const { count, invincible } = this.world.combo;
+    return { count, multiplier: comboMultiplier(count), invincible };
+  }
+
+  // Running into a log knocks the frog back onto the water, unless it's
+  // cannon or super jumping, which smashes straight through.
+  private didHitObstacle(pad: Pad): HitOutcome {
+    const { frog } = this.world;
+    const smashedBy = this.smashingAbility();
+    if (smashedBy) {
+      const outcome = HitOutcome.destroyed(smashedBy);
+      this.events.emit('obstacleHit', { pad, outcome });
+      return outcome;
+    }
+    frog.vx *= -0.8;
+    frog.vy *= -0.8;
+    frog.y -= 10;
+    frog.z = 0;
+    frog.vz = 0;
+    this.breakCombo();
+    const outcome = HitOutcome.hitOnly;
+    this.events.emit('obstacleHit', { pad, outcome });
+    return outcome;
+  }
+
+  // A long enough combo, or the moments just after a hit, also carry the
+  // frog through enemies, though not logs. Otherwise the enemy costs a heart
+  // and knocks the frog back.
+  private didCrash(enemy: Enemy): HitOutcome {
+    const { frog, combo, health } = this.world;
+    const smashedBy = this.smashingAbility();
+    if (smashedBy || combo.invincible || isInvulnerable(health)) {
+      const outcome = HitOutcome.destroyed(smashedBy);
+      this.events.emit('enemyHit', { enemy, outcome });
+      return outcome;
+    }
+    const outcome = HitOutcome.hitOnly;
+    this.breakCombo();
+    takeHit(health);
+    frog.vx *= -0.7;
+    frog.vy *= -0.7;
+    this.events.emit('enemyHit', { enemy, outcome });
+    this.events.emit('heartLost', { cause: 'enemy', hearts: health.hearts });
+    if (health.hearts <= 0) this.gameOver('outOfHealth');
+    return outcome;
+  }
+
+  // A cannon jump in flight, or a super jump, knocks out whatever it runs into.
+  private smashingAbility() {
+    const { frog, buffs } = this.world;
+    if (frog.cannonJump === 'flying') return 'cannonJump';
+    if (isBuffActive(buffs, 'superJump')) return 'superJump';
+    return null;
+  }
+
+  private didLandOnCrocodile(croc: Crocodile) {
+    const { frog } = this.world;
+    this.endRide();
+    startCarrying(croc);
+    frog.x = croc.x;
+    frog.y = croc.y;
+    frog.z = 0;
+    frog.vx = 0;
+    frog.vy = 0;
+    frog.vz = 0;
+    frog.onPadId = null;
+    frog.isFloating = false;
+    frog.cannonJump = 'none';
+    frog.ridingCrocodileId = croc.id;
+    this.events.emit('crocodileRideStart', { crocodile: croc });
+    this.updateMusic();
+  }
+
+  // The crocodile dives once the ride is over, leaving the frog to swim for it.
+  private didCompleteCrocodileRide(croc: Crocodile) {
+    const { world } = this;
+    if (croc.id !== world.frog.ridingCrocodileId) return;
+    this.endRide();
+    world.crocodiles = world.crocodiles.filter((other) => other !== croc);
+    // Rewards grow with the combo, like on iOS.
+    const reward = Math.floor(CROCODILE_CARRY_REWARD * comboMultiplier(world.combo.count));
+    this.coins += reward;
+    this.events.emit('crocodileRideComplete', { crocodile: croc, reward });
+  }
+
+  // Coins are worth more during a combo, like on iOS.
+  private didCollect(item: Collectible) {
+    const coins = Math.floor(COIN_VALUE * comboMultiplier(this.world.combo.count));
+    this.coins += coins;
+    this.events.emit('collect', { item, coins });
+  }
+
+  private ridingCrocodile() {
+    const { frog, crocodiles } = this.world;
+    if (frog.ridingCrocodileId === null) return undefined;
+    return crocodiles.find((croc) => croc.id === frog.ridingCrocodileId);
+  }
+
+  private endRide() {
+    const croc = this.ridingCrocodile();
+    this.world.frog.ridingCrocodileId = null;
+    if (!croc) return;
+    stopCarrying(croc);
+    this.updateMusic();
+  }
+
+  // Rides and buffs have their own tracks; the most exciting one plays.
+  private updateMusic() {
+    const { frog, buffs } = this.world;
+    let cue: MusicCue = 'gameplay';
+    if (frog.rocketState !== 'none') cue = 'rocketFlight';
+    else if (frog.ridingCrocodileId !== null) cue = 'crocRomp';
+    else if (isBuffActive(buffs, 'superJump')) cue = 'superJump';
+    this.events.emit('music', { cue });
+  }
+
+  // Distance travelled up the river, in tenths of world units. Biomes and
+  // difficulty go by distance, whatever the score.
+  private get distance() {
+    return Math.max(0, Math.floor(this.world.frog.y / 10));
+  }
+
+  private updateScore() {
+    const { distance } = this;
+    if (distance <= this.scoredDistance) return;
+    const gained = distance - this.scoredDistance;
+    const { weather, combo } = this.world;
+    this.score += gained * comboMultiplier(combo.count);
+    this.distanceByBiome[weather] = (this.distanceByBiome[weather] ?? 0) + gained;
+    this.scoredDistance = distance;
+  }
+
+  private updateRiver() {
+    const { world, distance } = this;
+    const { viewHeight } = this.renderer;
+    // Each loop through the biomes starts over at the easiest level.
+    if (this.difficulty.update(this.weather.loopDistance(distance), world.weather)) {
+      this.events.emit('difficultyLevel', { level: this.difficulty.level });
+    }
+    const newPads = this.river.update(world.pads, world.camera.y, viewHeight);
+    for (const pad of newPads) {
+      this.spawner.populatePad(world, pad, { cameraY: world.camera.y, viewHeight });
+    }
+    this.spawner.recycle(world, world.camera.y, viewHeight);
+  }
+
+  // The river left the frog behind: a scroll saver puts it back on a fresh
+  // pad up the screen, otherwise the run is over.
+  private didScrollOffScreen() {
+    const { world } = this;
+    const { frog, camera, inventory } = world;
+    if (inventory.scrollSavers <= 0) {
+      this.gameOver('scrolledOffScreen');
+      return;
+    }
+    inventory.scrollSavers--;
+    this.endRide();
+
+    const { riverWidth } = Configuration.Dimensions;
+    const { viewHeight } = this.renderer;
+    const x = Math.min(Math.max(frog.x, RESCUE_BANK_MARGIN), riverWidth - RESCUE_BANK_MARGIN);
+    const y = camera.y - viewHeight / 2 + viewHeight * RESCUE_HEIGHT;
+    const pad = this.river.createRescuePad(x, y);
+    world.pads.push(pad);
+    frog.x = x;
+    frog.y = y;
+    land(frog, pad);
+    this.events.emit('scrollSaverRescue', { pad, remaining: inventory.scrollSavers });
+  }
+
+  private updateHud() {
+    const hud = this.hud;
+    const key = JSON.stringify(hud);
+    if (key === this.lastHudKey) return;
+    this.lastHudKey = key;
+    this.events.emit('hud', hud);
+  }
+
+  private gameOver(reason: GameOverReason) {
+    if (this.isOver) return;
+    this.isOver = true;
+    this.stop();
+    const race = this.world.race && raceResult(reason);
+    if (race?.type === 'win') this.coins += this.world.race?.reward ?? 0;
+    const { daily } = this.world;
+    this.events.emit('gameOver', {
+      mode: this.mode,
+      reason,
+      race,
+      daily: daily && {
+        date: daily.date,
+        time: this.world.time,
+        distance: this.scoredDistance,
+        completed: reason === 'completedChallenge',
+      },
+      score: Math.floor(this.score),
+      distance: this.scoredDistance,
+      distanceByBiome: { ...this.distanceByBiome },
+      coins: this.coins,
+      bestCombo: this.world.combo.best,
+    });
+  }
+}
+
+/** How a race ended, given why the run did. */
+function raceResult(reason: GameOverReason): RaceResult {
+  switch (reason) {
+    // Reaching a finish line first is a win, whichever line it is.
+    case 'wonRace':
+    case 'completedChallenge':
+      return { type: 'win' };
+    case 'outrun':
+    case 'outOfHealth':
+    case 'missedLaunchPad':
+      return { type: 'lose', reason };
+    // Left behind by the river means left behind by the boat.
+    case 'scrolledOffScreen':
+      return { type: 'lose', reason: 'outrun' };
+    case 'drowned':
+    case 'fellInDesert':
+    case 'floatedAway':
+      return { type: 'lose', reason: 'drowned' };
+  }
+}
+
+/** Sprite names of a numbered animation, `prefix1` to `prefix<count>`. */
+function frames(prefix: string, count: number) {
+  return Array.from({ length: count }, (_, i) => `${prefix}${i + 1}`);
+}
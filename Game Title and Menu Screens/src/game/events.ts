@@ -0,0 +1,31 @@
+// Minimal typed event emitter. The engine uses it to tell the React UI, and
+// any scoring or achievement code, what happened during a step.
+
+type Handler<T> = (payload: T) => void;
+
+export class Emitter<Events extends object> {
+  private readonly handlers = new Map<keyof Events, Set<Handler<never>>>();
+
+  /** Subscribes to an event; call the returned function to unsubscribe. */
+  on<K extends keyof Events>(event: K, handler: Handler<Events[K]>): () => void {
+    let set = this.handlers.get(event);
+    if (!set) {
+      set = new Set();
+      this.handlers.set(event, set);
+    }
+    set.add(handler as Handler<never>);
+    return () => {
+      set.delete(handler as Handler<never>);
+    };
+  }
+
+  emit<K extends keyof Events>(event: K, payload: Events[K]) {
+    const set = this.handlers.get(event);
+    if (!set) return;
+    for (const handler of [...set]) (handler as Handler<Events[K]>)(payload);
+  }
+
+  clear() {
+    this.handlers.clear();
+  }
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { Configuration } from './config';
+import {
+  createHealth,
+  isInvulnerable,
+  maxHearts,
+  RECOIL_DURATION,
+  refillHearts,
+  startDrowning,
+  takeHit,
+  updateHealth,
+} from './health';
+
+const { baseHearts, invulnerabilityDuration, drowningGracePeriod } = Configuration.GameRules;
+const { maxHealthLevel } = Configuration.Shop;
+
+describe('maxHearts', () => {
+  it('adds the health level to the base hearts', () => {
+    expect(maxHearts(1)).toBe(baseHearts + 1);
+    expect(maxHearts(3)).toBe(baseHearts + 3);
+  });
+
+  it('clamps the health level to what the shop sells', () => {
+    expect(maxHearts(0)).toBe(baseHearts + 1);
+    expect(maxHearts(-4)).toBe(baseHearts + 1);
+    expect(maxHearts(maxHealthLevel + 10)).toBe(baseHearts + maxHealthLevel);
+  });
+
+  it('adds bonus hearts, but never takes any away', () => {
+    expect(maxHearts(1, 2)).toBe(baseHearts + 3);
+    expect(maxHearts(1, -2)).toBe(baseHearts + 1);
+  });
+});
+
+describe('takeHit', () => {
+  it('costs a heart and leaves the frog recoiling and invulnerable for a while', () => {
+    const health = createHealth(3);
+    expect(takeHit(health)).toBe(2);
+    expect(isInvulnerable(health)).toBe(true);
+    expect(health.recoil).toBe(RECOIL_DURATION);
+
+    updateHealth(health, invulnerabilityDuration / 2, false);
+    expect(isInvulnerable(health)).toBe(true);
+    updateHealth(health, invulnerabilityDuration / 2, false);
+    expect(isInvulnerable(health)).toBe(false);
+    expect(health.recoil).toBe(0);
+  });
+
+  it('never goes below zero hearts', () => {
+    const health = createHealth(1);
+    takeHit(health);
+    expect(takeHit(health)).toBe(0);
+  });
+});
+
+describe('drowning', () => {
+  it('costs a heart on the fall and another each time the grace period runs out', () => {
+    const health = createHealth(3);
+    expect(startDrowning(health)).toBe(2);
+    expect(updateHealth(health, drowningGracePeriod / 2, true)).toBe(false);
+    expect(updateHealth(health, drowningGracePeriod / 2, true)).toBe(true);
+    expect(health.hearts).toBe(1);
+    expect(health.drowning).toBe(drowningGracePeriod);
+  });
+
+  it('stops once the frog is out of the water', () => {
+    const health = createHealth(3);
+    startDrowning(health);
+    expect(updateHealth(health, drowningGracePeriod, false)).toBe(false);
+    expect(health.drowning).toBe(0);
+    expect(health.hearts).toBe(2);
+  });
+});
+
+describe('refillHearts', () => {
+  it('fills up to the capacity the run started with', () => {
+    const health = createHealth(4);
+    takeHit(health);
+    takeHit(health);
+    refillHearts(health);
+    expect(health.hearts).toBe(4);
+  });
+});
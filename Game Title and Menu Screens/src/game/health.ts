@@ -0,0 +1,72 @@
+// Hearts, after Frog.currentHealth and the damage handling in GameScene on
+// iOS. Enemies cost a heart and leave the frog recoiling and untouchable for
+// a moment. Falling in the water costs one too, and another every few seconds
+// until the frog gets out; running out of hearts ends the run.
+
+import { Configuration } from './config';
+
+// How long the frog shows its recoil pose after a hit.
+export const RECOIL_DURATION = 0.33;
+
+export interface Health {
+  hearts: number;
+  maxHearts: number;
+  /** Seconds left of the invulnerability after a hit. */
+  invulnerable: number;
+  /** Seconds left of the recoil pose. */
+  recoil: number;
+  /** Seconds left to get out of the water before losing another heart; 0 when not drowning. */
+  drowning: number;
+}
+
+/**
+ * Heart capacity for a run: the base hearts plus the health upgrade level,
+ * capped at what the shop sells, plus any bonus hearts earned elsewhere.
+ */
+export function maxHearts(healthLevel: number, heartBoost = 0) {
+  const { baseHearts } = Configuration.GameRules;
+  const level = Math.min(Math.max(1, healthLevel), Configuration.Shop.maxHealthLevel);
+  return baseHearts + level + Math.max(0, heartBoost);
+}
+
+export function createHealth(hearts: number): Health {
+  return { hearts, maxHearts: hearts, invulnerable: 0, recoil: 0, drowning: 0 };
+}
+
+export function isInvulnerable(health: Health) {
+  return health.invulnerable > 0;
+}
+
+/** Takes a heart for an enemy hit and starts the invulnerability; returns the hearts left. */
+export function takeHit(health: Health) {
+  health.hearts = Math.max(0, health.hearts - 1);
+  health.invulnerable = Configuration.GameRules.invulnerabilityDuration;
+  health.recoil = RECOIL_DURATION;
+  return health.hearts;
+}
+
+/** Takes a heart for falling in the water and starts the clock on the next; returns the hearts left. */
+export function startDrowning(health: Health) {
+  health.hearts = Math.max(0, health.hearts - 1);
+  health.drowning = Configuration.GameRules.drowningGracePeriod;
+  return health.hearts;
+}
+
+export function refillHearts(health: Health) {
+  health.hearts = health.maxHearts;
+}
+
+/**
+ * Runs the health timers down. The drowning clock stops once the frog is out
+ * of the water; returns true if it ran out this step and cost a heart.
+ */
+export function updateHealth(health: Health, dt: number, inWater: boolean): boolean {
+  health.invulnerable = Math.max(0, health.invulnerable - dt);
+  health.recoil = Math.max(0, health.recoil - dt);
+  if (!inWater) health.drowning = 0;
+  if (health.drowning <= 0) return false;
+  health.drowning = Math.max(0, health.drowning - dt);
+  if (health.drowning > 0) return false;
+  startDrowning(health);
+  return true;
+}
@@ -0,0 +1,36 @@
+// Consumable items, after the item attacks in CollisionManager on iOS. There
+// they fire on their own when an enemy comes close; here the player taps an
+// item in the HUD and it goes for the nearest thing it works on: honey for
+// bees, a swatter for dragonflies, an axe for snakes and logs, and a holy
+// cross for ghosts. A life vest isn't tapped: it goes off by itself when the
+// frog falls in, and pulls it out of the water.
+
+import { ABILITY_EFFECTS, nearestTo, selectEffectTarget, WeaponType } from './effects';
+import { ItemTarget, Pad, World } from './types';
+
+export type ItemType = WeaponType | 'vest';
+
+export const ITEM_TYPES: readonly ItemType[] = ['honey', 'swatter', 'axe', 'cross', 'vest'];
+
+/** What the frog can carry into a run: the items above, and scroll savers, which go off by themselves. */
+export type CarriedItem = ItemType | 'scrollSavers';
+
+export const CARRIED_ITEMS: readonly CarriedItem[] = [...ITEM_TYPES, 'scrollSavers'];
+
+// Most of each item the frog carries into a run, as on iOS.
+export const MAX_ITEM_COUNT = 4;
+// Seconds before the same item can be used again.
+export const ITEM_COOLDOWN = 1;
+// How far a vest reaches for a pad; iOS only steers a frog in the water
+// towards pads this close.
+const VEST_RESCUE_RANGE = 400;
+
+/** What `item` would be used on right now, or null if there's nothing for it. */
+export function findItemTarget(world: World, item: WeaponType): ItemTarget | null {
+  return selectEffectTarget(world, ABILITY_EFFECTS[item]);
+}
+
+/** The pad a life vest pulls the frog onto, or null if none is in reach. */
+export function findRescuePad(world: World): Pad | null {
+  return nearestTo(world.frog, world.pads.filter((pad) => pad.type !== 'log'), VEST_RESCUE_RANGE);
+}
@@ -0,0 +1,57 @@
+// Fixed-timestep game loop driven by requestAnimationFrame.
+// The simulation always advances in 1/60s steps (the rate the iOS physics was
+// tuned for), while rendering happens once per display frame.
+
+export const FIXED_TIMESTEP = 1 / 60;
+
+// If the tab stalls (background, debugger, slow device) don't try to catch up
+// on more than this much time in a single frame.
+const MAX_FRAME_TIME = 0.1;
+
+export interface GameLoopHandlers {
+  update: (dt: number) => void;
+  render: (alpha: number) => void;
+}
+
+export class GameLoop {
+  private frameId: number | null = null;
+  private lastTime: number | null = null;
+  private accumulator = 0;
+
+  constructor(private readonly handlers: GameLoopHandlers) {}
+
+  get isRunning() {
+    return this.frameId !== null;
+  }
+
+  start() {
+    if (this.isRunning) return;
+    this.lastTime = null;
+    this.accumulator = 0;
+    this.frameId = requestAnimationFrame(this.tick);
+  }
+
+  stop() {
+    if (this.frameId !== null) {
+      cancelAnimationFrame(this.frameId);
+      this.frameId = null;
+    }
+  }
+
+  private tick = (now: number) => {
+    this.frameId = requestAnimationFrame(this.tick);
+
+    const frameTime = this.lastTime === null ? 0 : Math.min((now - this.lastTime) / 1000, MAX_FRAME_TIME);
+    this.lastTime = now;
+    this.accumulator += frameTime;
+
+    while (this.accumulator >= FIXED_TIMESTEP) {
+      this.handlers.update(FIXED_TIMESTEP);
+      this.accumulator -= FIXED_TIMESTEP;
+      // A handler may have stopped the loop (e.g. game over) mid-frame.
+      if (!this.isRunning) return;
+    }
+
+    this.handlers.render(this.accumulator / FIXED_TIMESTEP);
+  };
+}
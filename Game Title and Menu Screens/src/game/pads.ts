@@ -0,0 +1,81 @@
+// Per-type lily pad behavior, ported from the iOS `Pad` entity: drifting
+// pads, pulsing shrinking pads, slippery ice and the box-shaped logs.
+
+import { Configuration, WeatherType } from './config';
+import { Pad, Vec2 } from './types';
+
+// Logs are a 120x40 box rather than a circle.
+export const LOG_HALF_WIDTH = 60;
+export const LOG_HALF_HEIGHT = 20;
+// Launch and warp pads are drawn at a fixed size.
+export const SPECIAL_PAD_SIZE = 120;
+
+// Drifting pads turn around this close to the river bank.
+const DRIFT_BANK_LIMIT = 45;
+const LOG_BANK_LIMIT = 60;
+const SHRINK_MIN_SCALE = 0.75;
+
+/** Pads that carry the frog sideways while it sits on them. */
+export function isDrifting(pad: Pad) {
+  return pad.type === 'moving' || pad.type === 'waterLily' || pad.type === 'log';
+}
+
+/** Ice is always slippery; in the rain every pad is. */
+export function isSlippery(pad: Pad, weather: WeatherType) {
+  return pad.type === 'ice' || weather === 'rain';
+}
+
+/**
+ * Radius of the solid part of a pad. While the frog is already standing on a
+ * shrinking pad its full size counts, so it can't shrink out from under it.
+ */
+export function padPhysicsRadius(pad: Pad, standingOn = false) {
+  if (pad.type === 'log') return LOG_HALF_WIDTH;
+  const scale = standingOn && pad.type === 'shrinking' ? 1 : pad.scale;
+  return pad.radius * scale * Configuration.Dimensions.padPhysicsRadiusMultiplier;
+}
+
+/** Sideways movement the pad gives a frog sitting on it this step. */
+export function padDrift(pad: Pad) {
+  return isDrifting(pad) ? pad.moveSpeed * pad.moveDirection : 0;
+}
+
+/** Advances drifting and shrinking pads by one fixed step. */
+export function updatePad(pad: Pad, dt: number) {
+  if (isDrifting(pad)) {
+    pad.x += padDrift(pad);
+    const limit = pad.type === 'log' ? LOG_BANK_LIMIT : DRIFT_BANK_LIMIT;
+    if (pad.x > Configuration.Dimensions.riverWidth - limit || pad.x < limit) {
+      pad.moveDirection = pad.moveDirection === 1 ? -1 : 1;
+    }
+  }
+  if (pad.type === 'shrinking') {
+    pad.shrinkTime += dt;
+    pad.scale = SHRINK_MIN_SCALE + (1 - SHRINK_MIN_SCALE) * Math.sin(pad.shrinkTime * pad.shrinkSpeed);
+  }
+}
+
+/** Whether a frog touching down at `point` lands on the pad. */
+export function canLandOn(pad: Pad, point: Vec2, standingOn = false) {
+  const { frogRadius } = Configuration.Dimensions;
+  if (pad.type === 'log') {
+    // Landing on a log needs the frog's feet on the log itself.
+    const buffer = frogRadius * 0.15;
+    return (
+      Math.abs(point.x - pad.x) < LOG_HALF_WIDTH + buffer &&
+      Math.abs(point.y - pad.y) < LOG_HALF_HEIGHT + buffer
+    );
+  }
+  const hitDistance = padPhysicsRadius(pad, standingOn) + frogRadius * 0.9;
+  return Math.hypot(point.x - pad.x, point.y - pad.y) < hitDistance;
+}
+
+/** Whether a frog at `point` runs into the log. */
+export function hitsLog(pad: Pad, point: Vec2) {
+  const { frogRadius } = Configuration.Dimensions;
+  return (
+    pad.type === 'log' &&
+    Math.abs(point.x - pad.x) < LOG_HALF_WIDTH + frogRadius &&
+    Math.abs(point.y - pad.y) < LOG_HALF_HEIGHT + frogRadius
+  );
+}
@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+import { Configuration, WeatherType } from './config';
+import { FIXED_TIMESTEP } from './loop';
+import { bounce, gravityFor, jump, jumpProfile, land, stepFrog } from './physics';
+import { Frog, Pad } from './types';
+
+function frogAt(x = 0, y = 0): Frog {
+  return {
+    x,
+    y,
+    z: 0,
+    vx: 0,
+    vy: 0,
+    vz: 0,
+    onPadId: null,
+    isFloating: false,
+    ridingCrocodileId: null,
+    rocketState: 'none',
+    rocketTimer: 0,
+    cannonJump: 'none',
+  };
+}
+
+const pad: Pad = {
+  id: 7,
+  type: 'normal',
+  x: 100,
+  y: 200,
+  radius: 40,
+  moveSpeed: 0,
+  moveDirection: 1,
+  scale: 1,
+  shrinkTime: 0,
+  shrinkSpeed: 0,
+  hasSpawnedGhost: false,
+};
+
+describe('gravityFor', () => {
+  it('pulls the same everywhere but space, where it is much weaker', () => {
+    const { gravityZ } = Configuration.Physics;
+    const earthly: WeatherType[] = ['sunny', 'night', 'rain', 'winter', 'desert'];
+    for (const weather of earthly) expect(gravityFor(weather)).toBe(gravityZ);
+    expect(gravityFor('space')).toBeCloseTo(gravityZ * 0.3);
+  });
+});
+
+describe('jumpProfile', () => {
+  it('lands on the step the frog comes back to the water', () => {
+    // With vz 4 and gravity 0.5 the height after n steps is 4n - n(n - 1) / 4,
+    // which first reaches 0 again at step 17 and peaks at 18 on steps 8 and 9.
+    const profile = jumpProfile({ vx: 0, vy: 0, vz: 4 }, 'sunny');
+    expect(profile.hangTime).toBeCloseTo(17 * FIXED_TIMESTEP);
+    expect(profile.peakHeight).toBeCloseTo(18);
+  });
+
+  it('covers the ground the air drag allows', () => {
+    // 17 moves, each 0.9 times the last: 5 * (1 - 0.9^17) / (1 - 0.9).
+    const profile = jumpProfile({ vx: 3, vy: 4, vz: 4 }, 'sunny');
+    expect(profile.distance).toBeCloseTo(50 * (1 - 0.9 ** 17));
+  });
+
+  it('hangs longer and goes further in space', () => {
+    const launch = { vx: 3, vy: 4, vz: 4 };
+    const sunny = jumpProfile(launch, 'sunny');
+    const space = jumpProfile(launch, 'space');
+    expect(space.hangTime).toBeGreaterThan(sunny.hangTime);
+    expect(space.peakHeight).toBeGreaterThan(sunny.peakHeight);
+    expect(space.distance).toBeGreaterThan(sunny.distance);
+  });
+});
+
+describe('stepFrog', () => {
+  it('reports the touchdown once, on the step the frog lands', () => {
+    const frog = frogAt();
+    jump(frog, { vx: 0, vy: 0, vz: 1 });
+    expect(stepFrog(frog, { weather: 'sunny' })).toBe(false);
+    let steps = 1;
+    while (!stepFrog(frog, { weather: 'sunny' })) steps++;
+    expect((steps + 1) * FIXED_TIMESTEP).toBeCloseTo(jumpProfile({ vx: 0, vy: 0, vz: 1 }, 'sunny').hangTime);
+    expect(stepFrog(frog, { weather: 'sunny' })).toBe(false);
+  });
+
+  it('slows a floating frog with water drag and no pad drift', () => {
+    const frog = frogAt();
+    frog.isFloating = true;
+    frog.vx = 10;
+    stepFrog(frog, { weather: 'sunny', groundDrift: 5 });
+    expect(frog.x).toBe(10);
+    expect(frog.vx).toBeCloseTo(9);
+  });
+
+  it('carries a sitting frog along with its pad and applies ground friction', () => {
+    const frog = frogAt();
+    frog.vx = 10;
+    stepFrog(frog, { weather: 'sunny', groundDrift: 2 });
+    expect(frog.x).toBe(12);
+    expect(frog.vx).toBeCloseTo(10 * Configuration.Physics.frictionGround);
+  });
+
+  it('lets a frog on slippery ground keep more of its speed', () => {
+    const frog = frogAt();
+    frog.vx = 10;
+    stepFrog(frog, { weather: 'rain', slippery: true });
+    expect(frog.vx).toBeCloseTo(9.3);
+  });
+});
+
+describe('land', () => {
+  it('stops the frog and pulls it a little towards the middle of the pad', () => {
+    const frog = frogAt(0, 100);
+    frog.vx = 5;
+    frog.isFloating = true;
+    land(frog, pad);
+    expect(frog).toMatchObject({ x: 10, y: 110, vx: 0, vy: 0, onPadId: 7, isFloating: false });
+  });
+
+  it('leaves a frog where it touched down on a log', () => {
+    const frog = frogAt(0, 100);
+    land(frog, pad, { isLog: true });
+    expect(frog.x).toBe(0);
+    expect(frog.y).toBe(100);
+  });
+
+  it('keeps half the slide on a slippery pad, capped', () => {
+    const frog = frogAt();
+    frog.vx = 2;
+    frog.vy = -20;
+    land(frog, pad, { slippery: true });
+    expect(frog.vx).toBe(1);
+    expect(frog.vy).toBe(-2);
+  });
+});
+
+describe('bounce', () => {
+  it('sends the frog high and back the way it came at half speed', () => {
+    const frog = frogAt();
+    frog.vx = 4;
+    frog.vy = -6;
+    bounce(frog);
+    expect(frog.vz).toBe(22);
+    expect(frog.vx).toBe(-2);
+    expect(frog.vy).toBe(3);
+  });
+});
@@ -0,0 +1,196 @@
+// Pseudo-3D frog physics: x/y across the river plus a height axis z.
+// Ports Frog.performFixedPhysicsStep, jump, land and bounce from the iOS app
+// step for step, so the web game and the trajectory preview travel exactly as
+// far and stay airborne exactly as long. No DOM access; safe to run anywhere.
+
+import { Configuration, WeatherType } from './config';
+import { FIXED_TIMESTEP } from './loop';
+import type { SlingshotAim } from './slingshot';
+import { Frog, Pad } from './types';
+
+// Caps on launch speed so a full-power drag can't overshoot, as in GameScene.
+// A super jump doubles the launch vector and gets twice the cap.
+const MAX_LAUNCH_VELOCITY = 35;
+const MAX_SUPER_LAUNCH_VELOCITY = 70;
+
+// Ice, or rain without boots, keeps the frog sliding.
+const SLIPPERY_FRICTION = 0.93;
+const MAX_SLIPPERY_VELOCITY = 2;
+// Drag while paddling in the water after a life vest save.
+const FLOATING_FRICTION = 0.9;
+// How far a landing pulls the frog toward the pad's center.
+const LANDING_CENTERING = 0.1;
+const BOUNCE_VELOCITY_Z = 22;
+const RIVER_BANK_RESTITUTION = -0.6;
+// Safety net for jumpProfile; even a space super jump lands well before this.
+const MAX_PROFILE_STEPS = 10_000;
+
+export interface LaunchVelocity {
+  vx: number;
+  vy: number;
+  vz: number;
+}
+
+export interface LaunchOptions {
+  jumpLevel: number;
+  superJump?: boolean;
+}
+
+/** Conditions under the frog for a single physics step. */
+export interface StepEnvironment {
+  weather: WeatherType;
+  /** Sideways speed of the pad the frog is sitting on (moving pads, lilies, logs). */
+  groundDrift?: number;
+  /** Ice, or rain without boots. */
+  slippery?: boolean;
+}
+
+export interface LandingOptions {
+  slippery?: boolean;
+  /** Logs are long, so the frog stays where it touched down instead of centering. */
+  isLog?: boolean;
+}
+
+export interface JumpProfile {
+  /** Seconds from launch to touchdown. */
+  hangTime: number;
+  peakHeight: number;
+  /** Ground distance covered before touchdown. */
+  distance: number;
+}
+
+/** Vertical acceleration per fixed step; space is floatier. */
+export function gravityFor(weather: WeatherType) {
+  const { gravityZ } = Configuration.Physics;
+  return weather === 'space' ? gravityZ * 0.3 : gravityZ;
+}
+
+/** Converts a slingshot pull into the frog's launch velocity. */
+export function launchVelocity(aim: SlingshotAim, { jumpLevel, superJump = false }: LaunchOptions): LaunchVelocity {
+  const power = Configuration.Physics.dragPower(jumpLevel) * (superJump ? 2 : 1);
+  const maxVelocity = superJump ? MAX_SUPER_LAUNCH_VELOCITY : MAX_LAUNCH_VELOCITY;
+  let vx = aim.pull.x * power;
+  let vy = aim.pull.y * power;
+  const speed = Math.hypot(vx, vy);
+  if (speed > maxVelocity) {
+    vx *= maxVelocity / speed;
+    vy *= maxVelocity / speed;
+  }
+  return { vx, vy, vz: Configuration.Physics.baseJumpZ * (0.5 + aim.power * 0.5) };
+}
+
+/** Puts the frog in the air with the given launch velocity. */
+export function jump(frog: Frog, launch: LaunchVelocity) {
+  // Replace rather than add, so leftover slide on ice can't stack onto the jump.
+  frog.vx = launch.vx;
+  frog.vy = launch.vy;
+  frog.vz = launch.vz;
+  frog.onPadId = null;
+  frog.isFloating = false;
+}
+
+/**
+ * Advances the frog by one fixed 1/60s step (Frog.performFixedPhysicsStep on
+ * iOS). Returns true on the step the frog comes back down.
+ */
+export function stepFrog(frog: Frog, env: StepEnvironment): boolean {
+  const { Physics } = Configuration;
+  const wasAirborne = frog.z > 0 || frog.vz > 0;
+
+  frog.x += frog.vx;
+  frog.y += frog.vy;
+  frog.z += frog.vz;
+
+  if (frog.z > 0) {
+    frog.vz -= gravityFor(env.weather);
+    frog.vx *= Physics.frictionAir;
+    frog.vy *= Physics.frictionAir;
+    return false;
+  }
+
+  frog.z = 0;
+  frog.vz = 0;
+  if (frog.isFloating) {
+    frog.vx *= FLOATING_FRICTION;
+    frog.vy *= FLOATING_FRICTION;
+  } else {
+    frog.x += env.groundDrift ?? 0;
+    const friction = env.slippery ? SLIPPERY_FRICTION : Physics.frictionGround;
+    frog.vx *= friction;
+    frog.vy *= friction;
+  }
+  return wasAirborne;
+}
+
+/** Settles the frog onto a pad after touchdown. */
+export function land(frog: Frog, pad: Pad, { slippery = false, isLog = false }: LandingOptions = {}) {
+  frog.z = 0;
+  frog.vz = 0;
+  frog.onPadId = pad.id;
+  frog.isFloating = false;
+
+  if (slippery) {
+    // Keep some slide, capped so repeated hops can't build up speed.
+    frog.vx = clamp(frog.vx * 0.5, -MAX_SLIPPERY_VELOCITY, MAX_SLIPPERY_VELOCITY);
+    frog.vy = clamp(frog.vy * 0.5, -MAX_SLIPPERY_VELOCITY, MAX_SLIPPERY_VELOCITY);
+    return;
+  }
+
+  frog.vx = 0;
+  frog.vy = 0;
+  if (!isLog) {
+    frog.x += (pad.x - frog.x) * LANDING_CENTERING;
+    frog.y += (pad.y - frog.y) * LANDING_CENTERING;
+  }
+}
+
+/** Knocks the frog high into the air and back the way it came. */
+export function bounce(frog: Frog) {
+  frog.vz = BOUNCE_VELOCITY_Z;
+  frog.vx *= -0.5;
+  frog.vy *= -0.5;
+}
+
+/** Keeps a body between the river banks, bouncing it off the edge. */
+export function constrainToRiver(body: { x: number; vx: number }, radius = Configuration.Dimensions.frogRadius) {
+  const { riverWidth } = Configuration.Dimensions;
+  if (body.x < radius || body.x > riverWidth - radius) {
+    body.x = clamp(body.x, radius, riverWidth - radius);
+    body.vx *= RIVER_BANK_RESTITUTION;
+  }
+}
+
+/**
+ * Hang time, apex and ground distance of a jump over open water, found by
+ * running the same fixed steps the live frog takes.
+ */
+export function jumpProfile(launch: LaunchVelocity, weather: WeatherType): JumpProfile {
+  const frog: Frog = {
+    x: 0,
+    y: 0,
+    z: 0,
+    vx: 0,
+    vy: 0,
+    vz: 0,
+    onPadId: null,
+    isFloating: false,
+    ridingCrocodileId: null,
+    rocketState: 'none',
+    rocketTimer: 0,
+    cannonJump: 'none',
+  };
+  jump(frog, launch);
+  let steps = 0;
+  let peakHeight = 0;
+  let landed = false;
+  while (!landed && steps < MAX_PROFILE_STEPS) {
+    landed = stepFrog(frog, { weather });
+    peakHeight = Math.max(peakHeight, frog.z);
+    steps++;
+  }
+  return { hangTime: steps * FIXED_TIMESTEP, peakHeight, distance: Math.hypot(frog.x, frog.y) };
+}
+
+function clamp(value: number, min: number, max: number) {
+  return Math.min(Math.max(value, min), max);
+}
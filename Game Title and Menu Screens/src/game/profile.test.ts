@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_ITEM_COUNT } from './items';
+import { carriedItems, defaultProfile, loadProfile, spendItem, updateProfile } from './profile';
+import { withMemoryStorage } from './testing';
+
+withMemoryStorage();
+
+describe('carriedItems', () => {
+  it('takes up to the most a run carries of each item', () => {
+    const profile = defaultProfile();
+    profile.items = { ...profile.items, honey: 2, vest: MAX_ITEM_COUNT + 3, scrollSavers: 1 };
+    expect(carriedItems(profile)).toEqual({
+      honey: 2,
+      swatter: 0,
+      axe: 0,
+      cross: 0,
+      vest: MAX_ITEM_COUNT,
+      scrollSavers: 1,
+    });
+  });
+});
+
+describe('spendItem', () => {
+  it('takes one item out of the kept ones', () => {
+    updateProfile((profile) => {
+      profile.items = { ...profile.items, axe: 3 };
+    });
+    spendItem('axe');
+    expect(loadProfile().items.axe).toBe(2);
+  });
+
+  it('never goes below none', () => {
+    spendItem('scrollSavers');
+    expect(loadProfile().items.scrollSavers).toBe(0);
+  });
+});
+
+describe('loadProfile', () => {
+  it('fills in items missing from an older save', () => {
+    localStorage.setItem('sf_profile', JSON.stringify({ coins: 5, items: { honey: 1 } }));
+    const profile = loadProfile();
+    expect(profile.coins).toBe(5);
+    expect(profile.items).toEqual({ ...defaultProfile().items, honey: 1 });
+  });
+});
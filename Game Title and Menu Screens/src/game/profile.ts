@@ -0,0 +1,203 @@
+// The player's saved progress, after PersistenceManager on iOS. Where iOS
+// keeps a UserDefaults key per setting, the web client keeps one JSON profile
+// under `sf_profile` in localStorage, so a change is saved all at once or not
+// at all.
+
+import { ChallengeProgress, ChallengeStats, defaultChallengeStats } from './challenges';
+import { Configuration } from './config';
+import { addDailyRun, DailyChallengeResult, DailyRun } from './daily';
+import { CARRIED_ITEMS, CarriedItem, MAX_ITEM_COUNT } from './items';
+import type { RaceResult } from './race';
+
+/**
+ * Permanent unlocks. The doubled super jump and rocket times aren't sold in
+ * the shop: on iOS they're legendary picks from the in-run upgrade menu.
+ */
+export type Unlock =
+  | 'logJumper'
+  | 'superJump'
+  | 'doubleSuperJumpTime'
+  | 'rocket'
+  | 'doubleRocketTime'
+  | 'cannonJump'
+  | 'comboBoost';
+
+export const UNLOCKS: readonly Unlock[] = [
+  'logJumper',
+  'superJump',
+  'doubleSuperJumpTime',
+  'rocket',
+  'doubleRocketTime',
+  'cannonJump',
+  'comboBoost',
+];
+
+export type Unlocks = Record<Unlock, boolean>;
+
+export interface Profile {
+  unlocks: Unlocks;
+  /** Jump upgrades bought, from 1; each one adds launch power. */
+  jumpLevel: number;
+  /** Health upgrades bought, from 1; see `maxHearts`. */
+  healthLevel: number;
+  /** Extra hearts on top of the health upgrades, earned outside the shop. */
+  heartBoost: number;
+  /** Longest landing combo in any run; `sf_highest_combo` on iOS. */
+  highestCombo: number;
+  highScore: number;
+  /** Coins in the wallet, to spend in the shop. */
+  coins: number;
+  /** Beat the Boat races won in a row; each one makes the next race longer. */
+  raceWinStreak: number;
+  /** Daily challenge results by date; see `DailyChallengeResult`. */
+  dailyResults: Record<string, DailyChallengeResult>;
+  /** Items kept between runs; each run takes up to `MAX_ITEM_COUNT` of each along. */
+  items: Record<CarriedItem, number>;
+  /** Lifetime stats the challenges are measured against. */
+  challengeStats: ChallengeStats;
+  /** Challenge progress by challenge id; challenges not started yet are left out. */
+  challenges: Record<string, ChallengeProgress>;
+}
+
+/** The parts of a finished run that go on the player's record. */
+export interface RunResult {
+  score: number;
+  coins: number;
+  bestCombo: number;
+  /** How a race went; null for runs that weren't races. */
+  race: RaceResult | null;
+  /** How the day's challenge went; null for other runs. */
+  daily: DailyRun | null;
+}
+
+/** What a run changed on the player's record. */
+export interface RunRecord {
+  isNewHighScore: boolean;
+  isNewBestCombo: boolean;
+  /** Wallet balance with the run's coins added. */
+  totalCoins: number;
+  raceWinStreak: number;
+  /** The day's result with this run added; null for runs that weren't daily challenges. */
+  daily: DailyChallengeResult | null;
+  /** Coins for completing the day's challenge, paid the first time only. */
+  dailyReward: number;
+}
+
+const PROFILE_KEY = 'sf_profile';
+
+export function defaultProfile(): Profile {
+  return {
+    unlocks: Object.fromEntries(UNLOCKS.map((unlock) => [unlock, false])) as Unlocks,
+    jumpLevel: 1,
+    healthLevel: 1,
+    heartBoost: 0,
+    highestCombo: 0,
+    highScore: 0,
+    coins: 0,
+    raceWinStreak: 0,
+    dailyResults: {},
+    items: Object.fromEntries(CARRIED_ITEMS.map((item) => [item, 0])) as Record<CarriedItem, number>,
+    challengeStats: defaultChallengeStats(),
+    challenges: {},
+  };
+}
+
+/** The saved profile, with defaults for anything missing. Falls back to a fresh one if storage is unavailable or corrupt. */
+export function loadProfile(): Profile {
+  const profile = defaultProfile();
+  try {
+    const saved = storage()?.getItem(PROFILE_KEY);
+    if (!saved) return profile;
+    const stored = JSON.parse(saved) as Partial<Profile>;
+    return {
+      ...profile,
+      ...stored,
+      unlocks: { ...profile.unlocks, ...stored.unlocks },
+      items: { ...profile.items, ...stored.items },
+      challengeStats: { ...profile.challengeStats, ...stored.challengeStats },
+    };
+  } catch {
+    return profile;
+  }
+}
+
+export function saveProfile(profile: Profile) {
+  try {
+    storage()?.setItem(PROFILE_KEY, JSON.stringify(profile));
+  } catch {
+    // Full or blocked storage; progress just isn't kept this time.
+  }
+}
+
+/** Loads the profile, applies `change` to it and saves the result. */
+export function updateProfile(change: (profile: Profile) => void) {
+  const profile = loadProfile();
+  change(profile);
+  saveProfile(profile);
+  return profile;
+}
+
+/** The items a run starts with: as many as are kept, up to `MAX_ITEM_COUNT` of each. */
+export function carriedItems(profile: Profile): Record<CarriedItem, number> {
+  return Object.fromEntries(
+    CARRIED_ITEMS.map((item) => [item, Math.min(MAX_ITEM_COUNT, profile.items[item])]),
+  ) as Record<CarriedItem, number>;
+}
+
+/** Takes one `item` out of the kept items, once it's been used in a run. */
+export function spendItem(item: CarriedItem) {
+  return updateProfile((profile) => {
+    profile.items = { ...profile.items, [item]: Math.max(0, profile.items[item] - 1) };
+  });
+}
+
+/** Saves `combo` if it beats the best so far; returns whether it did. */
+export function recordCombo(combo: number) {
+  if (combo <= loadProfile().highestCombo) return false;
+  updateProfile((profile) => {
+    profile.highestCombo = combo;
+  });
+  return true;
+}
+
+/**
+ * Adds a finished run to the record: its coins, and its score and combo if
+ * they're new bests. Only endless runs count towards the high score. Races
+ * carry the win streak on or end it instead, and daily runs go on the day's
+ * result, the first completion of the day paying out.
+ */
+export function recordRun({ score, coins, bestCombo, race, daily }: RunResult): RunRecord {
+  let isNewHighScore = false;
+  let isNewBestCombo = false;
+  let dailyReward = 0;
+  const profile = updateProfile((saved) => {
+    isNewHighScore = !race && !daily && score > saved.highScore;
+    isNewBestCombo = bestCombo > saved.highestCombo;
+    if (isNewHighScore) saved.highScore = score;
+    if (isNewBestCombo) saved.highestCombo = bestCombo;
+    if (race) saved.raceWinStreak = race.type === 'win' ? saved.raceWinStreak + 1 : 0;
+    if (daily) {
+      const previous = saved.dailyResults[daily.date];
+      if (daily.completed && !previous?.completed) dailyReward = Configuration.GameRules.dailyChallengeReward;
+      saved.dailyResults = { ...saved.dailyResults, [daily.date]: addDailyRun(previous, daily) };
+    }
+    saved.coins += coins + dailyReward;
+  });
+  return {
+    isNewHighScore,
+    isNewBestCombo,
+    totalCoins: profile.coins,
+    raceWinStreak: profile.raceWinStreak,
+    daily: daily && profile.dailyResults[daily.date],
+    dailyReward,
+  };
+}
+
+// localStorage throws rather than returning null in some privacy modes.
+function storage(): Storage | null {
+  try {
+    return typeof localStorage === 'undefined' ? null : localStorage;
+  } catch {
+    return null;
+  }
+}
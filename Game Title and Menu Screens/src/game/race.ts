@@ -0,0 +1,66 @@
+// Beat the Boat, after GameMode.beatTheBoat, Boat and updateRaceState in
+// GameScene on iOS. After a countdown a boat sets off up the river at a steady
+// speed, and the frog has to reach the finish line before it does. The boat
+// doesn't shove pads aside as it does on iOS; pads here have no velocity.
+
+import { Configuration } from './config';
+import { Vec2 } from './types';
+
+/** Why a race was lost, as on the iOS result screen. */
+export type RaceLossReason = 'outrun' | 'outOfHealth' | 'drowned' | 'missedLaunchPad';
+
+export type RaceResult = { type: 'win' } | { type: 'lose'; reason: RaceLossReason };
+
+export const BOAT_WIDTH = 80;
+export const BOAT_HEIGHT = 150;
+// The boat starts a little behind the frog, over to the left.
+const BOAT_START_X = Configuration.Dimensions.riverWidth / 2 - 250;
+const BOAT_START_Y = -50;
+
+export interface Race {
+  boat: Vec2;
+  /** Per-step speed, faster with every win in a row. */
+  boatSpeed: number;
+  finishY: number;
+  /** Coins for winning. */
+  reward: number;
+  /** Seconds left before the start; the world holds still until then. */
+  countdown: number;
+}
+
+/** Sets up a race for a player on a streak of `winStreak` wins. */
+export function createRace(winStreak: number): Race {
+  const { GameRules } = Configuration;
+  return {
+    boat: { x: BOAT_START_X, y: BOAT_START_Y },
+    boatSpeed: GameRules.boatSpeed * (1 + winStreak * GameRules.boatSpeedPerWin),
+    finishY: GameRules.boatRaceFinishY + winStreak * GameRules.raceLengthPerWin,
+    reward: GameRules.boatRaceReward + winStreak * GameRules.raceRewardPerWin,
+    countdown: GameRules.raceCountdown,
+  };
+}
+
+/** Length of the course in metres, as the run's distance counts them. */
+export function raceLength(race: Race) {
+  return Math.round(race.finishY / 10);
+}
+
+/** How far along the course `y` is, 0 at the start to 1 at the finish. */
+export function raceProgress(race: Race, y: number) {
+  return Math.min(1, Math.max(0, y / race.finishY));
+}
+
+/**
+ * Runs the countdown, then moves the boat on by one step. Returns the result
+ * once someone crosses the line, the frog first if they both do at once.
+ */
+export function updateRace(race: Race, dt: number, frogY: number): RaceResult | null {
+  if (race.countdown > 0) {
+    race.countdown = Math.max(0, race.countdown - dt);
+    return null;
+  }
+  race.boat.y += race.boatSpeed;
+  if (frogY >= race.finishY) return { type: 'win' };
+  if (race.boat.y >= race.finishY) return { type: 'lose', reason: 'outrun' };
+  return null;
+}
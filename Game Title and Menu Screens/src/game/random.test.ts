@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { createRandom, deriveSeed, randomInt, randomRange } from './random';
+
+function draw(seed: number, count: number) {
+  const random = createRandom(seed);
+  return Array.from({ length: count }, () => random());
+}
+
+describe('createRandom', () => {
+  it('repeats the same sequence for the same seed', () => {
+    expect(draw(42, 20)).toEqual(draw(42, 20));
+  });
+
+  it('gives different sequences for different seeds', () => {
+    expect(draw(42, 20)).not.toEqual(draw(43, 20));
+  });
+
+  it('stays within [0, 1)', () => {
+    for (const value of draw(7, 1000)) {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+
+  it('treats seeds as unsigned 32-bit integers', () => {
+    expect(draw(-1, 5)).toEqual(draw(0xffffffff, 5));
+  });
+});
+
+describe('deriveSeed', () => {
+  it('gives a stream independent of the original seed', () => {
+    const seed = 1234;
+    expect(draw(deriveSeed(seed, 0x9e3779b9), 10)).not.toEqual(draw(seed, 10));
+    expect(deriveSeed(seed, 0x9e3779b9)).toBe(deriveSeed(seed, 0x9e3779b9));
+  });
+});
+
+describe('randomRange and randomInt', () => {
+  it('keep to their bounds', () => {
+    const random = createRandom(5);
+    for (let i = 0; i < 500; i++) {
+      const float = randomRange(random, -3, 3);
+      expect(float).toBeGreaterThanOrEqual(-3);
+      expect(float).toBeLessThanOrEqual(3);
+      const int = randomInt(random, 2, 4);
+      expect(Number.isInteger(int)).toBe(true);
+      expect(int).toBeGreaterThanOrEqual(2);
+      expect(int).toBeLessThanOrEqual(4);
+    }
+  });
+
+  it('reach both ends of an integer range', () => {
+    const random = createRandom(11);
+    const seen = new Set(Array.from({ length: 200 }, () => randomInt(random, 1, 3)));
+    expect([...seen].sort()).toEqual([1, 2, 3]);
+  });
+});
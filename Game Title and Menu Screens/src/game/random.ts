@@ -0,0 +1,34 @@
+// Seedable random numbers. Everything that shapes the river draws from a
+// `Random` passed in by the caller, so a seed fully determines a run. Each
+// consumer gets its own stream from `deriveSeed`, so how often one of them
+// draws never shifts what the others see.
+
+/** Returns a float in [0, 1), like Math.random. */
+export type Random = () => number;
+
+/** Small, fast PRNG (mulberry32); plenty for level generation. */
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** A seed for a stream independent of `seed`'s own, told apart by `salt`. */
+export function deriveSeed(seed: number, salt: number) {
+  return (seed ^ salt) >>> 0;
+}
+
+/** Float in [min, max]. */
+export function randomRange(random: Random, min: number, max: number) {
+  return min + random() * (max - min);
+}
+
+/** Integer in [min, max], both inclusive. */
+export function randomInt(random: Random, min: number, max: number) {
+  return min + Math.floor(random() * (max - min + 1));
+}
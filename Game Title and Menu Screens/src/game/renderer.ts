@@ -0,0 +1,757 @@
+import { Configuration, WeatherType } from './config';
+import { CROCODILE_CARRY_DURATION } from './crocodiles';
+import { DAILY_FINISH_Y } from './daily';
+import { ABILITY_EFFECTS, EffectTransform, exitTransform } from './effects';
+import { LOG_HALF_HEIGHT, LOG_HALF_WIDTH, padPhysicsRadius, SPECIAL_PAD_SIZE } from './pads';
+import { BOAT_HEIGHT, BOAT_WIDTH } from './race';
+import {
+  DESCENT_DURATION,
+  descentProgress,
+  FROG_FALL_FRAME_COUNT,
+  FROG_FALL_FRAME_TIME,
+  ROCKET_ALTITUDE,
+  ROCKET_EXPLODE_FRAME_COUNT,
+  ROCKET_RIDE_FRAME_COUNT,
+  ROCKET_RIDE_FRAME_TIME,
+} from './rocket';
+import { getSprite } from './sprites';
+import { LandingSurface } from './trajectory';
+import { AbilityEffect, Crocodile, Enemy, Pad, Vec2, World } from './types';
+import { WEATHER_TRANSITION_DURATION } from './weather';
+
+// Narrow screens show about as much river as an iPhone does; wide screens are
+// capped so the whole river plus a strip of shore fits.
+const MIN_VIEW_WIDTH = 360;
+const MAX_VIEW_WIDTH = Configuration.Dimensions.riverWidth + 120;
+
+const FROG_SIT_HEIGHT = 40;
+const FROG_RECOIL_HEIGHT = 60;
+// The frog flickers this many times a second while it can't be hurt.
+const INVULNERABLE_BLINK_RATE = 10;
+const SHORE_COLOR = 'rgb(34, 92, 52)';
+const TRAJECTORY_DOT_SIZE = 14;
+const COIN_SIZE = 24;
+const TREASURE_CHEST_SIZE = 40;
+const FINISH_LINE_HEIGHT = 60;
+const FLYING_ENEMY_SIZE = 30;
+const GHOST_SIZE = 65;
+const SNAKE_HEIGHT = 50;
+const SNAKE_FRAME_COUNT = 5;
+const SNAKE_FRAME_TIME = 0.12;
+const CROCODILE_HEIGHT = 150;
+const CROCODILE_FRAME_COUNT = 5;
+const CROCODILE_FRAME_TIME = 0.15;
+// The ride ring shows once the frog is this close to an idle crocodile.
+const CROCODILE_RING_RADIUS = 50;
+const CROCODILE_RING_RANGE = 600;
+// Particles per screen for the rain, snow and star effects.
+const AMBIENT_PARTICLES = 60;
+const PROJECTILE_SIZE = 30;
+// The rocket hangs a little below the frog riding it.
+const ROCKET_HEIGHT = 150;
+const ROCKET_OFFSET = 30;
+// A falling frog starts big, high up near the camera, and shrinks as it drops.
+const FROG_FALL_HEIGHT = 60;
+const FALL_START_SCALE = 2.5;
+const FALL_END_SCALE = 1.6;
+
+const PAD_SPRITES: Record<WeatherType, string> = {
+  sunny: 'lilypadDay',
+  night: 'lilypadNight',
+  rain: 'lilypadRain',
+  winter: 'lilypadSnow',
+  desert: 'lilypadDesert',
+  space: 'lilypadSpace',
+};
+const BEE_SPRITES: Record<WeatherType, string> = {
+  sunny: 'bee',
+  night: 'beeNight',
+  rain: 'beeRain',
+  winter: 'beeWinter',
+  desert: 'beeDesert',
+  space: 'beeSpace',
+};
+// In space the dragonflies become asteroids.
+const DRAGONFLY_SPRITES: Record<WeatherType, string> = {
+  sunny: 'dragonfly',
+  night: 'dragonflyNight',
+  rain: 'dragonflyRain',
+  winter: 'dragonflyWinter',
+  desert: 'dragonflyDesert',
+  space: 'asteroid',
+};
+const WATER_LILY_SPRITES: Record<WeatherType, string> = {
+  sunny: 'lilypadWater',
+  night: 'LilypadWaterNight',
+  rain: 'LilypadWaterRain',
+  winter: 'LilypadWaterSnow',
+  desert: 'lilypadWaterSand',
+  space: 'lilypadWaterSpace',
+};
+// There is no desert log artwork; iOS falls back to the sunny one too.
+const LOG_SPRITES: Record<WeatherType, string> = {
+  sunny: 'log',
+  night: 'logNight',
+  rain: 'logRain',
+  winter: 'logWinter',
+  desert: 'log',
+  space: 'logSpace',
+};
+
+/** Sprite for a pad in the given weather, matching Pad.updateColor on iOS. */
+function enemySpriteName(enemy: Enemy, world: World) {
+  switch (enemy.type) {
+    case 'bee':
+      return BEE_SPRITES[world.weather];
+    case 'dragonfly':
+      return DRAGONFLY_SPRITES[world.weather];
+    case 'ghost':
+      return 'ghostFrog';
+    case 'snake': {
+      // Only the desert has its own snake; everywhere else uses the plain one.
+      const frame = (Math.floor(world.time / SNAKE_FRAME_TIME) % SNAKE_FRAME_COUNT) + 1;
+      return `${world.weather === 'desert' ? 'snakeDesert' : 'snake'}${frame}`;
+    }
+  }
+}
+
+// Riding crocodiles thrash through their swim animation.
+function crocodileSpriteName(croc: Crocodile, time: number) {
+  if (croc.state !== 'carrying') return 'crocodile';
+  return `crocodile${(Math.floor(time / CROCODILE_FRAME_TIME) % CROCODILE_FRAME_COUNT) + 1}`;
+}
+
+// Snakes are sized by height and keep their sprite's proportions.
+function enemySize(enemy: Enemy) {
+  if (enemy.type === 'ghost') return GHOST_SIZE;
+  if (enemy.type === 'snake') return SNAKE_HEIGHT;
+  return FLYING_ENEMY_SIZE;
+}
+
+/** Sprites whose artwork depends on the biome, so they can be loaded before it arrives. */
+export function biomeSpriteNames(weather: WeatherType) {
+  return [
+    PAD_SPRITES[weather],
+    WATER_LILY_SPRITES[weather],
+    LOG_SPRITES[weather],
+    BEE_SPRITES[weather],
+    DRAGONFLY_SPRITES[weather],
+  ];
+}
+
+function padSpriteName(pad: Pad, weather: WeatherType) {
+  switch (pad.type) {
+    case 'log':
+      return LOG_SPRITES[weather];
+    case 'moving':
+    case 'waterLily':
+      return WATER_LILY_SPRITES[weather];
+    case 'shrinking':
+      return weather === 'space' ? 'lilypadShrinkSpace' : 'LilypadShrink';
+    case 'grave':
+      return 'LilypadGrave';
+    case 'ice':
+      return 'LilypadIce';
+    case 'launchPad':
+      return 'landingPad';
+    case 'warp':
+      return 'warpPad';
+    default:
+      return PAD_SPRITES[weather];
+  }
+}
+
+// Stable pseudo-random value in [0, 1) for ambient particle placement.
+function noise(seed: number) {
+  const value = Math.sin(seed * 12.9898) * 43758.5453;
+  return value - Math.floor(value);
+}
+
+const NO_TRANSFORM: EffectTransform = { dx: 0, dy: 0, rotation: 0, scale: 1, alpha: 1 };
+
+const LANDING_COLORS: Record<LandingSurface, string> = {
+  pad: 'rgb(46, 204, 113)',
+  water: 'rgb(241, 196, 15)',
+  hazard: 'rgb(231, 76, 60)',
+};
+
+export class CanvasRenderer {
+  private readonly ctx: CanvasRenderingContext2D;
+  private width = 0;
+  private height = 0;
+  private pixelRatio = 1;
+  private scale = 1;
+  private cameraX = 0;
+  private cameraY = 0;
+
+  constructor(private readonly canvas: HTMLCanvasElement) {
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context is not available');
+    this.ctx = ctx;
+  }
+
+  /** Size in CSS pixels; the backing store is scaled by the device pixel ratio. */
+  resize(width: number, height: number, pixelRatio: number) {
+    this.width = width;
+    this.height = height;
+    this.pixelRatio = pixelRatio;
+    this.canvas.width = Math.round(width * pixelRatio);
+    this.canvas.height = Math.round(height * pixelRatio);
+    const viewWidth = Math.min(Math.max(width, MIN_VIEW_WIDTH), MAX_VIEW_WIDTH);
+    this.scale = width / viewWidth;
+  }
+
+  /** Height of the visible area in world units. */
+  get viewHeight() {
+    return this.height / this.scale;
+  }
+
+  /** Converts a world position to CSS pixels relative to the canvas. */
+  worldToScreen(x: number, y: number): Vec2 {
+    return {
+      x: (x - this.cameraX) * this.scale + this.width / 2,
+      y: this.height / 2 - (y - this.cameraY) * this.scale,
+    };
+  }
+
+  /** Converts CSS pixels relative to the canvas to a world position. */
+  screenToWorld(x: number, y: number): Vec2 {
+    return {
+      x: (x - this.width / 2) / this.scale + this.cameraX,
+      y: (this.height / 2 - y) / this.scale + this.cameraY,
+    };
+  }
+
+  render(world: World, alpha: number) {
+    const { ctx } = this;
+    const { camera } = world;
+    this.cameraX = camera.prevX + (camera.x - camera.prevX) * alpha;
+    this.cameraY = camera.prevY + (camera.y - camera.prevY) * alpha;
+
+    ctx.setTransform(this.pixelRatio, 0, 0, this.pixelRatio, 0, 0);
+    ctx.fillStyle = SHORE_COLOR;
+    ctx.fillRect(0, 0, this.width, this.height);
+
+    // While the biome changes, the new one fades in over the old.
+    const transition = world.weatherTransition;
+    const fade = transition ? Math.min(1, transition.elapsed / WEATHER_TRANSITION_DURATION) : 1;
+    if (transition) this.drawRiver(transition.from, 1);
+    this.drawRiver(world.weather, fade);
+    this.drawPads(world, fade);
+    this.drawTreasureChests(world);
+    this.drawFinishLine(world);
+    this.drawBoat(world);
+    this.drawCrocodiles(world);
+    this.drawCollectibles(world);
+    this.drawEnemies(world);
+    this.drawEffects(world);
+    this.drawAim(world);
+    this.drawTrajectory(world);
+    this.drawRocketLanding(world);
+    this.drawFrog(world);
+    if (transition) this.drawAmbient(transition.from, 1 - fade, world.time);
+    this.drawAmbient(world.weather, fade, world.time);
+  }
+
+  private drawRiver(weather: WeatherType, alpha: number) {
+    const { ctx } = this;
+    const { Colors } = Configuration;
+    const left = this.worldToScreen(0, 0).x;
+    const right = this.worldToScreen(Configuration.Dimensions.riverWidth, 0).x;
+    ctx.save();
+    ctx.globalAlpha = alpha;
+    if (weather === 'desert') {
+      const gradient = ctx.createLinearGradient(0, 0, 0, this.height);
+      gradient.addColorStop(0, Colors.desertTop);
+      gradient.addColorStop(1, Colors.desertBottom);
+      ctx.fillStyle = gradient;
+    } else {
+      ctx.fillStyle = Colors[weather];
+    }
+    ctx.fillRect(left, 0, right - left, this.height);
+    ctx.restore();
+  }
+
+  private drawPads(world: World, fade: number) {
+    const { ctx } = this;
+    const from = world.weatherTransition?.from;
+    for (const pad of world.pads) {
+      const center = this.worldToScreen(pad.x, pad.y);
+      const { width, height } = this.padSize(pad);
+      if (center.y + height / 2 < 0 || center.y - height / 2 > this.height) continue;
+
+      const spriteName = padSpriteName(pad, world.weather);
+      const fromName = from ? padSpriteName(pad, from) : spriteName;
+      const sprite = getSprite(spriteName);
+      ctx.save();
+      ctx.translate(center.x, center.y);
+      // The warp portal swirls, one turn every two seconds.
+      if (pad.type === 'warp') ctx.rotate(world.time * Math.PI);
+      if (sprite) {
+        // Pads whose artwork changes with the biome crossfade with the river.
+        const fromSprite = fromName !== spriteName ? getSprite(fromName) : null;
+        if (fromSprite) {
+          ctx.drawImage(fromSprite, -width / 2, -height / 2, width, height);
+          ctx.globalAlpha = fade;
+        }
+        ctx.drawImage(sprite, -width / 2, -height / 2, width, height);
+      } else {
+        ctx.fillStyle = pad.type === 'log' ? 'rgb(121, 85, 58)' : 'rgb(76, 175, 80)';
+        ctx.beginPath();
+        ctx.ellipse(0, 0, width / 2, height / 2, 0, 0, Math.PI * 2);
+        ctx.fill();
+      }
+      ctx.restore();
+    }
+  }
+
+  private drawCrocodiles(world: World) {
+    const { ctx } = this;
+    for (const croc of world.crocodiles) {
+      if (croc.opacity <= 0) continue;
+      const center = this.worldToScreen(croc.x, croc.y);
+      // Idle crocodiles bob gently on the surface.
+      const bob = croc.state === 'idle' ? Math.sin(croc.stateTime * 2) * 5 * this.scale : 0;
+      const sprite = getSprite(crocodileSpriteName(croc, world.time));
+      const height = CROCODILE_HEIGHT * this.scale;
+      const width = sprite ? height * (sprite.naturalWidth / sprite.naturalHeight) : height * 2.5;
+      if (center.y + height / 2 < 0 || center.y - height / 2 > this.height) continue;
+
+      ctx.save();
+      ctx.globalAlpha = croc.opacity;
+      this.drawRideRing(croc, world, center);
+      if (sprite) {
+        ctx.drawImage(sprite, center.x - width / 2, center.y - bob - height / 2, width, height);
+      } else {
+        ctx.fillStyle = 'rgb(46, 94, 50)';
+        ctx.beginPath();
+        ctx.ellipse(center.x, center.y - bob, width / 2, height / 3, 0, 0, Math.PI * 2);
+        ctx.fill();
+      }
+      ctx.restore();
+    }
+  }
+
+  // Pulsing ring marking a crocodile the frog can ride. During a ride it turns
+  // from green to red as time runs out.
+  private drawRideRing(croc: Crocodile, world: World, center: Vec2) {
+    const { ctx } = this;
+    const { frog } = world;
+    let color: string;
+    if (croc.state === 'carrying') {
+      const progress = Math.min(1, croc.carryTime / CROCODILE_CARRY_DURATION);
+      color = `${Math.round(255 * progress)}, ${Math.round(255 * (1 - progress))}, 0`;
+    } else if (croc.state === 'idle' && Math.hypot(frog.x - croc.x, frog.y - croc.y) <= CROCODILE_RING_RANGE) {
+      color = '0, 255, 0';
+    } else {
+      return;
+    }
+    const pulse = 1.1 + Math.sin(world.time * Math.PI * 2.5) * 0.1;
+    ctx.lineWidth = 3;
+    ctx.strokeStyle = `rgb(${color})`;
+    ctx.fillStyle = `rgba(${color}, 0.2)`;
+    ctx.beginPath();
+    ctx.arc(center.x, center.y, CROCODILE_RING_RADIUS * pulse * this.scale, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.stroke();
+  }
+
+  // Coins float above their pad; z lifts them up the screen.
+  private drawCollectibles(world: World) {
+    const { ctx } = this;
+    const size = COIN_SIZE * this.scale;
+    const sprite = getSprite('star');
+    for (const item of world.collectibles) {
+      const ground = this.worldToScreen(item.x, item.y);
+      const y = ground.y - item.z * this.scale;
+      if (y + size / 2 < 0 || y - size / 2 > this.height) continue;
+      if (sprite) {
+        ctx.drawImage(sprite, ground.x - size / 2, y - size / 2, size, size);
+      } else {
+        ctx.fillStyle = 'rgb(241, 196, 15)';
+        ctx.beginPath();
+        ctx.arc(ground.x, y, size / 2, 0, Math.PI * 2);
+        ctx.fill();
+      }
+    }
+  }
+
+  // Chests sit on their pad with a pulsing golden glow, like the iOS glow node.
+  private drawTreasureChests(world: World) {
+    const { ctx } = this;
+    const size = TREASURE_CHEST_SIZE * this.scale;
+    const sprite = getSprite('treasureChest');
+    for (const chest of world.treasureChests) {
+      const pad = world.pads.find((candidate) => candidate.id === chest.padId);
+      if (!pad) continue;
+      const center = this.worldToScreen(pad.x, pad.y);
+      if (center.y + size < 0 || center.y - size > this.height) continue;
+
+      ctx.save();
+      ctx.fillStyle = `rgba(255, 215, 0, ${0.25 + Math.sin(world.time * Math.PI * 2) * 0.15})`;
+      ctx.beginPath();
+      ctx.arc(center.x, center.y, size * 0.7, 0, Math.PI * 2);
+      ctx.fill();
+      if (sprite) {
+        ctx.drawImage(sprite, center.x - size / 2, center.y - size / 2, size, size);
+      } else {
+        ctx.fillStyle = 'rgb(140, 89, 38)';
+        ctx.strokeStyle = 'rgb(217, 166, 33)';
+        ctx.lineWidth = 3;
+        ctx.fillRect(center.x - size * 0.45, center.y - size * 0.35, size * 0.9, size * 0.7);
+        ctx.strokeRect(center.x - size * 0.45, center.y - size * 0.35, size * 0.9, size * 0.7);
+      }
+      ctx.restore();
+    }
+  }
+
+  // The checkered finish line spans the river at the end of a race or a daily challenge.
+  private drawFinishLine(world: World) {
+    const finishY = world.race?.finishY ?? (world.daily ? DAILY_FINISH_Y : null);
+    if (finishY === null) return;
+    const { ctx } = this;
+    const left = this.worldToScreen(0, finishY);
+    const right = this.worldToScreen(Configuration.Dimensions.riverWidth, finishY);
+    const height = FINISH_LINE_HEIGHT * this.scale;
+    if (left.y + height / 2 < 0 || left.y - height / 2 > this.height) return;
+
+    const sprite = getSprite('finishLine');
+    if (sprite) {
+      for (let x = left.x; x < right.x; x += height) {
+        const width = Math.min(height, right.x - x);
+        const sourceWidth = sprite.naturalWidth * (width / height);
+        ctx.drawImage(sprite, 0, 0, sourceWidth, sprite.naturalHeight, x, left.y - height / 2, width, height);
+      }
+      return;
+    }
+    const square = height / 2;
+    ctx.save();
+    for (let column = 0; left.x + column * square < right.x; column++) {
+      for (let row = 0; row < 2; row++) {
+        ctx.fillStyle = (column + row) % 2 === 0 ? 'white' : 'black';
+        const x = left.x + column * square;
+        ctx.fillRect(x, left.y - height / 2 + row * square, Math.min(square, right.x - x), square);
+      }
+    }
+    ctx.restore();
+  }
+
+  // The boat races up the river beside the frog.
+  private drawBoat(world: World) {
+    const { race } = world;
+    if (!race) return;
+    const { ctx } = this;
+    const boat = this.worldToScreen(race.boat.x, race.boat.y);
+    const size = BOAT_HEIGHT * this.scale;
+    if (boat.y + size / 2 < 0 || boat.y - size / 2 > this.height) return;
+    // The artwork is side-on, so it is fitted to the boat's length lying across.
+    const sprite = getSprite('boat');
+    if (sprite) {
+      const width = Math.min(size, size * (sprite.naturalWidth / sprite.naturalHeight));
+      const spriteHeight = width * (sprite.naturalHeight / sprite.naturalWidth);
+      ctx.drawImage(sprite, boat.x - width / 2, boat.y - spriteHeight / 2, width, spriteHeight);
+    } else {
+      const width = BOAT_WIDTH * this.scale;
+      ctx.save();
+      ctx.fillStyle = 'rgb(140, 89, 38)';
+      ctx.beginPath();
+      ctx.ellipse(boat.x, boat.y, width / 2, size / 2, 0, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.restore();
+    }
+  }
+
+  private drawEnemies(world: World) {
+    for (const enemy of world.enemies) this.drawEnemy(enemy, world);
+  }
+
+  private drawEnemy(enemy: Enemy, world: World, transform = NO_TRANSFORM) {
+    const { ctx } = this;
+    const ground = this.worldToScreen(enemy.x + transform.dx, enemy.y + transform.dy);
+    const y = ground.y - enemy.z * this.scale;
+    const sprite = getSprite(enemySpriteName(enemy, world));
+    const height = enemySize(enemy) * enemy.scale * transform.scale * this.scale;
+    const width = sprite ? height * (sprite.naturalWidth / sprite.naturalHeight) : height;
+    if (y + height / 2 < 0 || y - height / 2 > this.height) return;
+
+    ctx.save();
+    ctx.globalAlpha = transform.alpha;
+    // Flyers cast a small shadow on the water below them.
+    if (enemy.type !== 'snake') {
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.2)';
+      ctx.beginPath();
+      ctx.arc(ground.x, ground.y, 10 * this.scale, 0, Math.PI * 2);
+      ctx.fill();
+    }
+    ctx.translate(ground.x, y);
+    ctx.rotate(transform.rotation);
+    if (sprite) {
+      ctx.drawImage(sprite, -width / 2, -height / 2, width, height);
+    } else {
+      ctx.fillStyle = enemy.type === 'snake' ? 'rgb(139, 115, 60)' : 'rgb(241, 196, 15)';
+      ctx.beginPath();
+      ctx.ellipse(0, 0, width / 2, height / 2, 0, 0, Math.PI * 2);
+      ctx.fill();
+    }
+    ctx.restore();
+  }
+
+  // Weapons in flight, and whatever they hit playing out its exit.
+  private drawEffects(world: World) {
+    for (const effect of world.effects) {
+      if (effect.phase === 'flying') {
+        this.drawProjectile(effect);
+      } else {
+        this.drawExitingTarget(effect, world);
+      }
+    }
+  }
+
+  private drawProjectile(effect: AbilityEffect) {
+    const { ctx } = this;
+    const ground = this.worldToScreen(effect.x, effect.y);
+    const sprite = getSprite(ABILITY_EFFECTS[effect.weapon].sprite);
+    const height = PROJECTILE_SIZE * effect.scale * this.scale;
+    const width = sprite ? height * (sprite.naturalWidth / sprite.naturalHeight) : height;
+    ctx.save();
+    ctx.translate(ground.x, ground.y - effect.z * this.scale);
+    ctx.rotate(effect.rotation);
+    if (sprite) {
+      ctx.drawImage(sprite, -width / 2, -height / 2, width, height);
+    } else {
+      ctx.fillStyle = 'rgb(255, 255, 255)';
+      ctx.beginPath();
+      ctx.arc(0, 0, width / 2, 0, Math.PI * 2);
+      ctx.fill();
+    }
+    ctx.restore();
+  }
+
+  private drawExitingTarget(effect: AbilityEffect, world: World) {
+    const progress = Math.min(1, effect.elapsed / ABILITY_EFFECTS[effect.weapon].exitDuration);
+    const transform = exitTransform(effect, progress);
+    const { target } = effect;
+    if (target.type === 'enemy') {
+      this.drawEnemy(target.enemy, world, transform);
+      return;
+    }
+
+    const { ctx } = this;
+    const { pad } = target;
+    const center = this.worldToScreen(pad.x + transform.dx, pad.y + transform.dy);
+    const { width, height } = this.padSize(pad);
+    const sprite = getSprite(padSpriteName(pad, world.weather));
+    ctx.save();
+    ctx.globalAlpha = transform.alpha;
+    ctx.translate(center.x, center.y);
+    ctx.rotate(transform.rotation);
+    ctx.scale(transform.scale, transform.scale);
+    if (sprite) {
+      ctx.drawImage(sprite, -width / 2, -height / 2, width, height);
+    } else {
+      ctx.fillStyle = 'rgb(121, 85, 58)';
+      ctx.fillRect(-width / 2, -height / 2, width, height);
+    }
+    ctx.restore();
+  }
+
+  // On iOS a pad is drawn exactly as big as its solid part, so what looks
+  // like a pad is what the frog can land on.
+  private padSize(pad: Pad) {
+    switch (pad.type) {
+      case 'log':
+        return { width: LOG_HALF_WIDTH * 2 * this.scale, height: LOG_HALF_HEIGHT * 2 * this.scale };
+      case 'launchPad':
+      case 'warp':
+        return { width: SPECIAL_PAD_SIZE * this.scale, height: SPECIAL_PAD_SIZE * this.scale };
+      default: {
+        // Grave markers are drawn at half size.
+        const diameter = padPhysicsRadius(pad) * 2 * this.scale * (pad.type === 'grave' ? 0.5 : 1);
+        return { width: diameter, height: diameter };
+      }
+    }
+  }
+
+  // Screen-space weather effects: rain streaks, snowfall, the night's gloom,
+  // desert haze and the stars of space.
+  private drawAmbient(weather: WeatherType, alpha: number, time: number) {
+    if (alpha <= 0 || weather === 'sunny') return;
+    const { ctx, width, height } = this;
+    ctx.save();
+    ctx.globalAlpha = alpha;
+    switch (weather) {
+      case 'night':
+        ctx.fillStyle = 'rgba(8, 15, 40, 0.35)';
+        ctx.fillRect(0, 0, width, height);
+        break;
+      case 'desert':
+        ctx.fillStyle = 'rgba(255, 170, 80, 0.12)';
+        ctx.fillRect(0, 0, width, height);
+        break;
+      case 'rain':
+        ctx.strokeStyle = 'rgba(200, 220, 255, 0.5)';
+        ctx.lineWidth = 1.5;
+        ctx.beginPath();
+        for (let i = 0; i < AMBIENT_PARTICLES; i++) {
+          const x = noise(i) * width;
+          const y = (noise(i + 0.5) * height + time * 900) % (height + 20) - 20;
+          ctx.moveTo(x, y);
+          ctx.lineTo(x - 4, y + 18);
+        }
+        ctx.stroke();
+        break;
+      case 'winter':
+        ctx.fillStyle = 'rgba(255, 255, 255, 0.85)';
+        for (let i = 0; i < AMBIENT_PARTICLES; i++) {
+          const x = (noise(i) * width + Math.sin(time + i) * 15 + width) % width;
+          const y = (noise(i + 0.5) * height + time * (40 + noise(i + 0.25) * 40)) % height;
+          ctx.beginPath();
+          ctx.arc(x, y, 1.5 + noise(i + 0.75) * 2, 0, Math.PI * 2);
+          ctx.fill();
+        }
+        break;
+      case 'space':
+        for (let i = 0; i < AMBIENT_PARTICLES; i++) {
+          // Stars twinkle at their own pace.
+          ctx.globalAlpha = alpha * (0.5 + 0.5 * Math.sin(time * 2 + i * 1.7));
+          ctx.fillStyle = 'white';
+          ctx.fillRect(noise(i) * width, noise(i + 0.5) * height, 2, 2);
+        }
+        break;
+    }
+    ctx.restore();
+  }
+
+  // Rubber band from the frog back toward the finger, like the iOS aim line.
+  private drawAim(world: World) {
+    const { aim, frog } = world;
+    if (!aim || aim.cancelled) return;
+    const { ctx } = this;
+    const from = this.worldToScreen(frog.x, frog.y);
+    const to = this.worldToScreen(frog.x - aim.pull.x, frog.y - aim.pull.y);
+
+    ctx.save();
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.8)';
+    ctx.lineWidth = 3;
+    ctx.lineCap = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+    ctx.restore();
+  }
+
+  private drawTrajectory(world: World) {
+    const { trajectory, aim } = world;
+    if (!trajectory || !aim) return;
+    const { ctx } = this;
+
+    ctx.save();
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.7)';
+    // Stronger pulls draw a bolder arc, as TrajectoryRenderer.updateForDragIntensity does.
+    const intensity = 0.5 + aim.power * 0.5;
+    for (const point of trajectory.points) {
+      const ground = this.worldToScreen(point.x, point.y);
+      const radius = (TRAJECTORY_DOT_SIZE / 2) * Math.max(0.4, 1 - point.progress * 0.5) * this.scale;
+      ctx.globalAlpha = intensity * Math.max(0.3, 1 - point.progress);
+      ctx.beginPath();
+      ctx.arc(ground.x, ground.y - point.z * this.scale, radius, 0, Math.PI * 2);
+      ctx.fill();
+    }
+
+    ctx.globalAlpha = 1;
+    this.drawLandingMarker(trajectory.landing, trajectory.surface);
+    ctx.restore();
+  }
+
+  // While a rocket hovers, the marker follows the spot it would come down on.
+  private drawRocketLanding(world: World) {
+    const { rocketLanding } = world;
+    if (!rocketLanding) return;
+    this.ctx.save();
+    this.ctx.globalAlpha = 0.7 + Math.sin(world.time * Math.PI * 4) * 0.3;
+    this.drawLandingMarker(rocketLanding, rocketLanding.surface);
+    this.ctx.restore();
+  }
+
+  // Crosshair colored by what the frog would come down on.
+  private drawLandingMarker(point: Vec2, surface: LandingSurface) {
+    const { ctx } = this;
+    const landing = this.worldToScreen(point.x, point.y);
+    const size = 20 * this.scale;
+    ctx.strokeStyle = LANDING_COLORS[surface];
+    ctx.lineWidth = 3;
+    ctx.beginPath();
+    ctx.arc(landing.x, landing.y, size, 0, Math.PI * 2);
+    ctx.stroke();
+    ctx.beginPath();
+    ctx.moveTo(landing.x - size * 0.6, landing.y);
+    ctx.lineTo(landing.x + size * 0.6, landing.y);
+    ctx.moveTo(landing.x, landing.y - size * 0.6);
+    ctx.lineTo(landing.x, landing.y + size * 0.6);
+    ctx.stroke();
+  }
+
+  private drawFrog(world: World) {
+    const { ctx } = this;
+    const { frog } = world;
+    const ground = this.worldToScreen(frog.x, frog.y);
+
+    // Shadow shrinks and fades as the frog rises, like the iOS shadow node.
+    // It's hidden while the frog falls from an exploded rocket.
+    if (frog.rocketState !== 'descending') {
+      const shadowScale = Math.max(0, 1 - frog.z / 200);
+      ctx.fillStyle = `rgba(0, 0, 0, ${0.3 * shadowScale})`;
+      ctx.beginPath();
+      ctx.ellipse(ground.x, ground.y, 20 * shadowScale * this.scale, 10 * shadowScale * this.scale, 0, 0, Math.PI * 2);
+      ctx.fill();
+    }
+
+    const bodyY = ground.y - frog.z * this.scale;
+    if (frog.rocketState !== 'none' && this.drawRocketRide(world, ground.x, ground.y, bodyY)) return;
+    const { health } = world;
+    ctx.save();
+    if (health.invulnerable > 0 && Math.floor(world.time * INVULNERABLE_BLINK_RATE) % 2 === 0) ctx.globalAlpha = 0.4;
+    const drawn =
+      health.recoil > 0
+        ? this.drawFrame('frogRecoil', ground.x, bodyY, FROG_RECOIL_HEIGHT)
+        : this.drawFrame(frog.z > 0 ? 'frogJump1' : 'frogSit', ground.x, bodyY, FROG_SIT_HEIGHT);
+    if (!drawn) {
+      ctx.fillStyle = 'rgb(46, 204, 113)';
+      ctx.beginPath();
+      ctx.arc(ground.x, bodyY, Configuration.Dimensions.frogRadius * this.scale, 0, Math.PI * 2);
+      ctx.fill();
+    }
+    ctx.restore();
+  }
+
+  // The rocket sprites show the frog riding, so they replace it. Once the
+  // rocket blows up, the frog falls out of the explosion. Returns false until
+  // the sprites have loaded.
+  private drawRocketRide(world: World, x: number, groundY: number, bodyY: number) {
+    const { frog } = world;
+    if (frog.rocketState !== 'descending') {
+      const frame = (Math.floor(world.time / ROCKET_RIDE_FRAME_TIME) % ROCKET_RIDE_FRAME_COUNT) + 1;
+      return this.drawFrame(`rocketRide${frame}`, x, bodyY + ROCKET_OFFSET * this.scale, ROCKET_HEIGHT);
+    }
+
+    // The rocket explodes in place while the frog drops away from it.
+    const progress = descentProgress(frog);
+    const explodeFrame = Math.min(ROCKET_EXPLODE_FRAME_COUNT, Math.floor(progress * ROCKET_EXPLODE_FRAME_COUNT) + 1);
+    const rocketY = groundY - (ROCKET_ALTITUDE - ROCKET_OFFSET) * this.scale;
+    this.drawFrame(`rocketExplode${explodeFrame}`, x, rocketY, ROCKET_HEIGHT);
+    const fallFrame = Math.min(FROG_FALL_FRAME_COUNT, Math.floor((progress * DESCENT_DURATION) / FROG_FALL_FRAME_TIME) + 1);
+    const fallScale = FALL_START_SCALE + (FALL_END_SCALE - FALL_START_SCALE) * progress * progress;
+    return this.drawFrame(`frogFall${fallFrame}`, x, bodyY, FROG_FALL_HEIGHT * fallScale);
+  }
+
+  // Draws a sprite centered on a screen point, `height` world units tall.
+  private drawFrame(name: string, x: number, y: number, height: number) {
+    const sprite = getSprite(name);
+    if (!sprite) return false;
+    const screenHeight = height * this.scale;
+    const width = screenHeight * (sprite.naturalWidth / sprite.naturalHeight);
+    this.ctx.drawImage(sprite, x - width / 2, y - screenHeight / 2, width, screenHeight);
+    return true;
+  }
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { createDailyChallenge, DAILY_FINISH_Y, DailyChallenge, dailySpawnChance } from './daily';
+import { DifficultyDirector } from './difficulty';
+import { createRandom } from './random';
+import { RiverGenerator } from './river';
+import { Pad } from './types';
+
+// Far enough for a full loop: through the desert, the launch pad, space and the warp pad.
+const RIVER_LENGTH = 50_000;
+
+interface Scroll {
+  viewHeight: number;
+  /** How far the camera moves up the river each step. */
+  speed: number;
+}
+
+function createRiver(seed: number) {
+  return new RiverGenerator(createRandom(seed), new DifficultyDirector());
+}
+
+// Wired up the way the engine sets up a daily run.
+function createDailyRiver(challenge: DailyChallenge) {
+  const difficulty = new DifficultyDirector(undefined, (entity, distance) =>
+    dailySpawnChance(challenge, entity, distance),
+  );
+  return new RiverGenerator(createRandom(challenge.seed), difficulty, challenge.climate);
+}
+
+/**
+ * Scrolls the camera up a river, taking each special pad once the camera has
+ * passed it, and returns every pad laid out below `length`.
+ */
+function layOut(river: RiverGenerator, { viewHeight, speed }: Scroll, length = RIVER_LENGTH) {
+  const pads = river.createStartPads(0);
+  const laidOut = new Map<number, Pick<Pad, 'type' | 'x' | 'y' | 'radius'>>();
+  const record = () => {
+    for (const { id, type, x, y, radius } of pads) {
+      if (!laidOut.has(id)) laidOut.set(id, { type, x, y, radius });
+    }
+  };
+
+  record();
+  for (let cameraY = 0; cameraY < length; cameraY += speed) {
+    river.update(pads, cameraY, viewHeight);
+    record();
+    for (const pad of pads) {
+      if ((pad.type === 'launchPad' || pad.type === 'warp') && pad.y < cameraY) river.passSpecialPad(pad.type);
+    }
+  }
+  return [...laidOut.values()].filter((pad) => pad.y < length);
+}
+
+describe('RiverGenerator', () => {
+  it('lays out the same river for a seed at any view height and scroll speed', () => {
+    const river = layOut(createRiver(12345), { viewHeight: 700, speed: 20 });
+    expect(layOut(createRiver(12345), { viewHeight: 1400, speed: 20 })).toEqual(river);
+    expect(layOut(createRiver(12345), { viewHeight: 700, speed: 55 })).toEqual(river);
+    expect(layOut(createRiver(12345), { viewHeight: 1100, speed: 7 })).toEqual(river);
+  });
+
+  it('runs through a whole loop of the biomes', () => {
+    const types = new Set(layOut(createRiver(12345), { viewHeight: 700, speed: 20 }).map((pad) => pad.type));
+    expect(types).toContain('launchPad');
+    expect(types).toContain('warp');
+    expect(types).toContain('ice');
+    expect(types).toContain('grave');
+  });
+
+  it('lays out a different river for a different seed', () => {
+    const scroll = { viewHeight: 700, speed: 20 };
+    expect(layOut(createRiver(54321), scroll)).not.toEqual(layOut(createRiver(12345), scroll));
+  });
+
+  it('ends at the launch pad until the frog takes it', () => {
+    const river = createRiver(12345);
+    const pads = river.createStartPads(0);
+    const lastId = () => Math.max(...pads.map((pad) => pad.id));
+    // A view tall enough to lay out the whole river at once.
+    river.update(pads, 0, RIVER_LENGTH);
+    const launchPad = pads.find((pad) => pad.type === 'launchPad');
+    expect(launchPad?.id).toBe(lastId());
+
+    river.passSpecialPad('warp');
+    river.update(pads, 0, RIVER_LENGTH);
+    expect(launchPad?.id).toBe(lastId());
+
+    river.passSpecialPad('launchPad');
+    river.update(pads, 0, RIVER_LENGTH);
+    expect(lastId()).toBeGreaterThan(launchPad?.id ?? Infinity);
+  });
+});
+
+describe('RiverGenerator on a daily challenge', () => {
+  const challenge = createDailyChallenge('2026-10-19');
+
+  it('lays out the same river for a date at any view height and scroll speed', () => {
+    const river = layOut(createDailyRiver(challenge), { viewHeight: 700, speed: 20 }, DAILY_FINISH_Y);
+    const again = createDailyRiver(createDailyChallenge('2026-10-19'));
+    expect(layOut(again, { viewHeight: 1400, speed: 35 }, DAILY_FINISH_Y)).toEqual(river);
+  });
+
+  it("keeps to the day's climate all the way to the finish", () => {
+    for (const date of ['2026-10-19', '2026-10-20', '2026-10-21', '2026-10-22']) {
+      const daily = createDailyChallenge(date);
+      const types = layOut(createDailyRiver(daily), { viewHeight: 700, speed: 20 }, DAILY_FINISH_Y).map(
+        (pad) => pad.type,
+      );
+      if (daily.climate !== 'winter') expect(types).not.toContain('ice');
+      if (daily.climate !== 'night') expect(types).not.toContain('grave');
+    }
+  });
+});
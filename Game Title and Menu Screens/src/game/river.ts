@@ -0,0 +1,307 @@
+// Procedural lily pad layout, ported from GameScene.generateNextLevelSlice,
+// spawnLilyPadChain and cleanupOffscreenEntities on iOS.
+
+import { Configuration, PadType, SpawnEntity, WeatherType } from './config';
+import { canSpawnPadType, DifficultyDirector } from './difficulty';
+import { LOG_HALF_WIDTH, padPhysicsRadius } from './pads';
+import { Random, randomInt, randomRange } from './random';
+import { Pad } from './types';
+import { weatherForDistance } from './weather';
+
+const START_PAD_COUNT = 5;
+const START_PAD_GAP = 100;
+// How far forward the next pad may land from the previous one, and how far sideways.
+const SLICE_MIN_GAP_Y = 80;
+const SLICE_MAX_GAP_Y = 140;
+const SLICE_MAX_DEVIATION_X = 150;
+const SLICE_ATTEMPTS = 15;
+// Extra pads clustered around each new pad, all within a hop of each other.
+const CHAIN_MIN_COUNT = 2;
+const CHAIN_MAX_COUNT = 4;
+const CHAIN_MAX_DISTANCE = 160;
+const CHAIN_MAX_BACKTRACK = 30;
+// Water lilies and graves replace the regular pad type at these rates.
+const WATER_LILY_MIN_SCORE = 150;
+const WATER_LILY_PROBABILITY = 0.15;
+const GRAVE_PROBABILITY = 0.15;
+// Logs drift across the river between these x positions, never stacked too closely.
+const LOG_MIN_X = 100;
+const LOG_MAX_X = 500;
+const LOG_MIN_GAP_Y = 100;
+const LOG_RADIUS = 45;
+const DEFAULT_MOVE_SPEED = 2;
+const WATER_LILY_MOVE_SPEED = 1.5;
+// Keep pads generated two screens ahead so a fast jump never outruns them.
+const GENERATE_AHEAD_SCREENS = 2;
+// Pads this far below the bottom of the screen are recycled.
+const CLEANUP_MARGIN = 200;
+// Safety cap on live pads. Higher than the iOS cap of 50 because a tall
+// browser window keeps far more river on screen than a phone.
+const MAX_PADS = 150;
+// Spawn positions remembered for spacing checks; more than one slice's worth.
+const LAYOUT_MEMORY = 16;
+// Distances count tenths of world units, like the run's.
+const DISTANCE_SCALE = 10;
+
+type SpecialPadType = 'launchPad' | 'warp';
+
+// Where a pad was placed and how big its solid part is. Layout works from
+// these snapshots rather than live pads, which drift and get recycled.
+interface PlacedPad {
+  x: number;
+  y: number;
+  physicsRadius: number;
+}
+
+// Where a slice of river sits, which decides what it may hold.
+interface SliceContext {
+  /** Distance into the slice's loop through the biomes. */
+  score: number;
+  weather: WeatherType;
+}
+
+/**
+ * Lays out pads ahead of the camera and recycles the ones left behind.
+ * A slice's pads, their types and the chances behind them follow from the
+ * injected `random` and where the slice sits in the river, never from how far
+ * the frog has got or how much river is on screen, so the same seed always
+ * produces the same river.
+ */
+export class RiverGenerator {
+  private nextId = 0;
+  private readonly pool: Pad[] = [];
+  private readonly placed: PlacedPad[] = [];
+  // Distance at which the current loop through the biomes began, at its warp pad.
+  private loopStart = 0;
+  // Past the launch pad and not yet through the warp pad.
+  private inSpace = false;
+  // The special pad the river stops at until the frog takes it.
+  private endsAt: SpecialPadType | null = null;
+  // Heights of recent logs, kept apart from pads that may be chopped or eaten.
+  private readonly logYs: number[] = [];
+
+  constructor(
+    private readonly random: Random,
+    private readonly difficulty: DifficultyDirector,
+    // A daily challenge keeps its climate the whole way instead.
+    private readonly climate?: WeatherType,
+  ) {}
+
+  /** The opening row of pads straight up the middle of the river; the frog starts on the first. */
+  createStartPads(startY: number): Pad[] {
+    const x = Configuration.Dimensions.riverWidth / 2;
+    const pads: Pad[] = [];
+    for (let i = 0; i < START_PAD_COUNT; i++) {
+      pads.push(this.createPad('normal', x, startY + i * START_PAD_GAP, this.randomPadRadius()));
+    }
+    return pads;
+  }
+
+  /**
+   * Generates pads until the river is filled `GENERATE_AHEAD_SCREENS` screens
+   * above `cameraY`, then recycles pads that dropped off the bottom.
+   * Returns the main pad of each new slice, where enemies and items may spawn.
+   */
+  update(pads: Pad[], cameraY: number, viewHeight: number): Pad[] {
+    const horizon = cameraY + viewHeight * GENERATE_AHEAD_SCREENS;
+    const spawnPads: Pad[] = [];
+    while (this.lastPlaced().y < horizon && !this.endsAt) {
+      const pad = this.generateSlice(pads);
+      if (pad) spawnPads.push(pad);
+    }
+    this.recycle(pads, cameraY - viewHeight / 2 - CLEANUP_MARGIN);
+    return spawnPads;
+  }
+
+  /**
+   * A pad dropped in to catch a frog saved from scrolling off screen. It sits
+   * outside the layout, so generation carries on from where it was.
+   */
+  createRescuePad(x: number, y: number): Pad {
+    // Rescues happen whenever the frog falls behind, so they mustn't draw from
+    // the layout's random stream: a full-size pad that never needs a direction.
+    return this.createPad('normal', x, y, Configuration.Dimensions.maxPadRadius, false, 1);
+  }
+
+  /**
+   * The frog took the launch or warp pad. The river ends at each until then,
+   * and carries on past it from here.
+   */
+  passSpecialPad(type: SpecialPadType) {
+    if (this.endsAt === type) this.endsAt = null;
+  }
+
+  // Returns the slice's main pad, or null for the launch and warp pads, which stay empty.
+  private generateSlice(pads: Pad[]): Pad | null {
+    const { riverWidth, padSpacing } = Configuration.Dimensions;
+    const lastPad = this.lastPlaced();
+    const radius = this.randomPadRadius();
+    const minDistance = lastPad.physicsRadius + radius + padSpacing;
+
+    let x = lastPad.x;
+    let y = lastPad.y;
+    for (let attempt = 0; attempt < SLICE_ATTEMPTS; attempt++) {
+      y = lastPad.y + randomRange(this.random, SLICE_MIN_GAP_Y, SLICE_MAX_GAP_Y);
+      const minX = Math.max(radius + padSpacing, lastPad.x - SLICE_MAX_DEVIATION_X);
+      const maxX = Math.min(riverWidth - radius - padSpacing, lastPad.x + SLICE_MAX_DEVIATION_X);
+      x = randomRange(this.random, minX, maxX);
+      if (Math.hypot(x - lastPad.x, y - lastPad.y) >= minDistance) break;
+    }
+
+    const context = this.sliceContext(y);
+    const type = this.choosePadType(context);
+    if (type === 'launchPad' || type === 'warp') {
+      // Special pads sit alone in the middle of the river.
+      pads.push(this.createPad(type, riverWidth / 2, y, radius));
+      this.endsAt = type;
+      return null;
+    }
+
+    const pad = this.createPad(type, x, y, radius);
+    pads.push(pad);
+    if (type === 'normal') {
+      this.spawnChain(pads, pad, randomInt(this.random, CHAIN_MIN_COUNT, CHAIN_MAX_COUNT));
+    }
+    this.maybeSpawnLog(pads, pad, context);
+    return pad;
+  }
+
+  // The natural biomes follow each other by distance into the loop. Everything
+  // from the launch pad to the warp pad is space, and the warp pad starts the
+  // next loop.
+  private sliceContext(y: number): SliceContext {
+    const score = Math.max(0, Math.floor(y / DISTANCE_SCALE) - this.loopStart);
+    if (this.climate) return { score, weather: this.climate };
+    return { score, weather: this.inSpace ? 'space' : weatherForDistance(score) };
+  }
+
+  private choosePadType({ score, weather }: SliceContext): PadType {
+    const { GameRules } = Configuration;
+    const { difficulty } = this;
+
+    if (weather === 'desert' && !this.inSpace && score >= GameRules.launchPadSpawnScore) {
+      this.inSpace = true;
+      return 'launchPad';
+    }
+    if (weather === 'space' && this.inSpace && score >= GameRules.warpPadSpawnScore) {
+      this.inSpace = false;
+      this.loopStart += score;
+      return 'warp';
+    }
+
+    // A daily challenge's pad focus overrides the chances, so the biome is
+    // checked here as well: no ice pads under a summer sun.
+    const rollFor = (pad: PadType, entity: SpawnEntity) =>
+      canSpawnPadType(pad, weather) && this.roll(difficulty.chanceAt(entity, score, weather));
+    let type: PadType = 'normal';
+    if (rollFor('moving', 'movingPad')) {
+      type = 'moving';
+    } else if (rollFor('ice', 'icePad')) {
+      type = 'ice';
+    }
+
+    if (score > WATER_LILY_MIN_SCORE && this.random() < WATER_LILY_PROBABILITY) type = 'waterLily';
+    if (weather === 'night' && this.random() < GRAVE_PROBABILITY) type = 'grave';
+    // Graves keep their type; anything else may turn into a shrinking pad.
+    if (type !== 'grave' && rollFor('shrinking', 'shrinkingPad')) type = 'shrinking';
+    return type;
+  }
+
+  private spawnChain(pads: Pad[], origin: Pad, count: number) {
+    const { riverWidth, maxPadRadius, padSpacing } = Configuration.Dimensions;
+    let lastX = origin.x;
+    let lastY = origin.y;
+
+    for (let i = 0; i < count; i++) {
+      const radius = this.randomPadRadius();
+      const minDistance = maxPadRadius + radius + padSpacing;
+      const angle = randomRange(this.random, 0, Math.PI * 2);
+      const distance = randomRange(this.random, minDistance, Math.max(minDistance, CHAIN_MAX_DISTANCE));
+
+      const padding = radius + padSpacing;
+      const x = Math.min(Math.max(lastX + Math.cos(angle) * distance, padding), riverWidth - padding);
+      const y = Math.max(lastY - CHAIN_MAX_BACKTRACK, lastY + Math.sin(angle) * distance);
+
+      const tooClose = this.placed.some(
+        (pad) => Math.hypot(pad.x - x, pad.y - y) < pad.physicsRadius + radius + padSpacing,
+      );
+      if (tooClose) continue;
+
+      pads.push(this.createPad('normal', x, y, radius));
+      lastX = x;
+      lastY = y;
+    }
+  }
+
+  private maybeSpawnLog(pads: Pad[], pad: Pad, { score, weather }: SliceContext) {
+    const { Dimensions } = Configuration;
+    if (!canSpawnPadType('log', weather) || !this.roll(this.difficulty.chanceAt('log', score, weather))) return;
+
+    const x = randomRange(this.random, LOG_MIN_X, LOG_MAX_X);
+    const clearOfPad = Math.abs(x - pad.x) > LOG_HALF_WIDTH + padPhysicsRadius(pad) + Dimensions.padSpacing;
+    const clearOfLogs = !this.logYs.some((y) => Math.abs(y - pad.y) < LOG_MIN_GAP_Y);
+    if (clearOfPad && clearOfLogs) {
+      pads.push(this.createPad('log', x, pad.y, LOG_RADIUS));
+      this.logYs.push(pad.y);
+      if (this.logYs.length > LAYOUT_MEMORY) this.logYs.shift();
+    }
+  }
+
+  // Only draws a number when the chance is above zero, so entities that can't
+  // spawn yet leave the rest of the layout untouched.
+  private roll(chance: number) {
+    return chance > 0 && this.random() < chance;
+  }
+
+  private lastPlaced() {
+    return this.placed[this.placed.length - 1];
+  }
+
+  private recycle(pads: Pad[], thresholdY: number) {
+    // Enforce the cap first, oldest pads going first, as iOS does.
+    while (pads.length > MAX_PADS) this.pool.push(pads.shift()!);
+
+    let kept = 0;
+    for (const pad of pads) {
+      if (pad.y < thresholdY) this.pool.push(pad);
+      else pads[kept++] = pad;
+    }
+    pads.length = kept;
+  }
+
+  // Logs are obstacles drifting through, not part of the path, so they stay out of the layout.
+  private createPad(
+    type: PadType,
+    x: number,
+    y: number,
+    radius: number,
+    inLayout = type !== 'log',
+    moveDirection?: 1 | -1,
+  ): Pad {
+    const fields: Pad = {
+      id: this.nextId++,
+      type,
+      x,
+      y,
+      radius,
+      moveSpeed: type === 'waterLily' ? WATER_LILY_MOVE_SPEED : DEFAULT_MOVE_SPEED,
+      moveDirection: moveDirection ?? (type === 'waterLily' || this.random() < 0.5 ? 1 : -1),
+      scale: 1,
+      shrinkTime: type === 'shrinking' ? randomRange(this.random, 0, 10) : 0,
+      shrinkSpeed: type === 'shrinking' ? randomRange(this.random, 1, 3) : 0,
+      hasSpawnedGhost: false,
+    };
+    const pooled = this.pool.pop();
+    const pad = pooled ? Object.assign(pooled, fields) : fields;
+    if (inLayout) {
+      this.placed.push({ x, y, physicsRadius: padPhysicsRadius(pad) });
+      if (this.placed.length > LAYOUT_MEMORY) this.placed.shift();
+    }
+    return pad;
+  }
+
+  private randomPadRadius() {
+    const { minPadRadius, maxPadRadius } = Configuration.Dimensions;
+    return randomRange(this.random, minPadRadius, maxPadRadius);
+  }
+}
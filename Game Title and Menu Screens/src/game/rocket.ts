@@ -0,0 +1,123 @@
+// Rocket ride, after Frog.updateRocketPhysics and the rocket handling in
+// GameScene on iOS. The frog flies straight up the river at a fixed height
+// while the player steers, then hovers for a few seconds to pick a spot.
+// Descending blows the rocket up and drops the frog where it was heading.
+
+import { Configuration } from './config';
+import { LandingSurface } from './trajectory';
+import { Frog, Vec2 } from './types';
+
+// Height the rocket climbs to, and where it starts from on lift-off.
+export const ROCKET_ALTITUDE = 60;
+const LIFT_OFF_HEIGHT = 40;
+const CLIMB_RATE = 0.1;
+// Per-step speeds, like the per-frame iOS movement.
+const FLIGHT_SPEED = 4;
+const HOVER_SPEED = 1.5;
+const DESCENT_SPEED = 2.5;
+const STEER_SPEED = 5;
+// Sideways drag, lighter while the player is steering.
+const STEER_FRICTION = 0.95;
+const DRIFT_FRICTION = 0.9;
+const HOVER_BOB = 5;
+
+export const ROCKET_RIDE_FRAME_COUNT = 5;
+export const ROCKET_RIDE_FRAME_TIME = 0.08;
+export const ROCKET_EXPLODE_FRAME_COUNT = 6;
+export const FROG_FALL_FRAME_COUNT = 8;
+export const FROG_FALL_FRAME_TIME = 0.1;
+// iOS plays the six explosion frames 0.28s apart and sets the frog down 80%
+// of the way through; the ride ends at touchdown, so the frames are sped up
+// to all fit in before it.
+export const DESCENT_DURATION = ROCKET_EXPLODE_FRAME_COUNT * 0.28 * 0.8;
+
+/** Where the frog would come down if it descended now, and what it would land on. */
+export interface RocketLandingTarget {
+  x: number;
+  y: number;
+  surface: LandingSurface;
+}
+
+/** Puts the frog on a rocket for `duration` seconds of flight. */
+export function startRocket(frog: Frog, duration: number) {
+  frog.rocketState = 'flying';
+  frog.rocketTimer = duration;
+  frog.z = Math.max(frog.z, LIFT_OFF_HEIGHT);
+  frog.vx = 0;
+  frog.vy = 0;
+  frog.vz = 0;
+  frog.onPadId = null;
+  frog.isFloating = false;
+  frog.cannonJump = 'none';
+}
+
+/** Steers the rocket: -1 for left, 1 for right, 0 to let it drift. */
+export function steerRocket(frog: Frog, direction: number) {
+  if (frog.rocketState === 'none') return;
+  frog.vx = direction * STEER_SPEED;
+}
+
+/** Blows up the rocket and starts the fall. */
+export function descend(frog: Frog) {
+  frog.rocketState = 'descending';
+  frog.rocketTimer = DESCENT_DURATION;
+  frog.vx = 0;
+  frog.vy = DESCENT_SPEED;
+}
+
+/** Share of the fall done, 0 to 1. */
+export function descentProgress(frog: Frog) {
+  return 1 - frog.rocketTimer / DESCENT_DURATION;
+}
+
+/** Where a descent starting now would set the frog down. */
+export function rocketLandingPoint(frog: Frog): Vec2 {
+  const remaining = frog.rocketState === 'descending' ? frog.rocketTimer : DESCENT_DURATION;
+  return { x: frog.x, y: frog.y + DESCENT_SPEED * Math.round(remaining * 60) };
+}
+
+/**
+ * Advances the ride by one fixed step. Returns true on the step the frog
+ * touches down, when it is back to normal physics.
+ */
+export function updateRocket(frog: Frog, dt: number, time: number): boolean {
+  frog.x += frog.vx;
+  frog.vx *= Math.abs(frog.vx) < 0.1 ? DRIFT_FRICTION : STEER_FRICTION;
+  frog.rocketTimer = Math.max(0, frog.rocketTimer - dt);
+
+  switch (frog.rocketState) {
+    case 'flying':
+      frog.vy = FLIGHT_SPEED;
+      frog.y += frog.vy;
+      frog.z += (ROCKET_ALTITUDE - frog.z) * CLIMB_RATE;
+      if (frog.rocketTimer <= 0) {
+        frog.rocketState = 'landing';
+        frog.rocketTimer = Configuration.GameRules.rocketLandingDuration;
+      }
+      return false;
+    case 'landing':
+      if (frog.rocketTimer <= 0) {
+        descend(frog);
+        return false;
+      }
+      frog.vy = HOVER_SPEED;
+      frog.y += frog.vy;
+      frog.z = ROCKET_ALTITUDE + Math.sin(time * 5) * HOVER_BOB;
+      return false;
+    case 'descending': {
+      frog.y += frog.vy;
+      // Falls faster and faster, like the easeIn drop on iOS.
+      const progress = descentProgress(frog);
+      frog.z = ROCKET_ALTITUDE * (1 - progress * progress);
+      if (frog.rocketTimer > 0) return false;
+      frog.rocketState = 'none';
+      frog.z = 0;
+      frog.vx = 0;
+      frog.vy = 0;
+      frog.vz = 0;
+      return true;
+    }
+    case 'none':
+      return false;
+  }
+}
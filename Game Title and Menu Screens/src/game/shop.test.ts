@@ -0,0 +1,78 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Configuration } from './config';
+import { loadProfile, updateProfile } from './profile';
+import { purchase, ShopItem, shopOffer } from './shop';
+import { withMemoryStorage } from './testing';
+import { TREASURE_PACK_SIZE } from './treasure';
+
+withMemoryStorage();
+
+function giveCoins(coins: number) {
+  updateProfile((profile) => {
+    profile.coins = coins;
+  });
+}
+
+describe('purchase', () => {
+  it('takes nothing when the coins fall short', () => {
+    giveCoins(Configuration.Shop.logJumperCost - 1);
+    expect(purchase('logJumper')).toBe('tooExpensive');
+    const profile = loadProfile();
+    expect(profile.coins).toBe(Configuration.Shop.logJumperCost - 1);
+    expect(profile.unlocks.logJumper).toBe(false);
+  });
+
+  it("saves nothing when the purchase doesn't go through", () => {
+    giveCoins(Configuration.Shop.logJumperCost - 1);
+    updateProfile((profile) => {
+      profile.healthLevel = Configuration.Shop.maxHealthLevel;
+    });
+    const setItem = vi.spyOn(localStorage, 'setItem');
+    expect(purchase('logJumper')).toBe('tooExpensive');
+    expect(purchase('health')).toBe('unavailable');
+    expect(setItem).not.toHaveBeenCalled();
+  });
+
+  it('takes the coins and hands over an unlock, once', () => {
+    giveCoins(Configuration.Shop.logJumperCost * 2);
+    expect(purchase('logJumper')).toBe('purchased');
+    expect(purchase('logJumper')).toBe('unavailable');
+    const profile = loadProfile();
+    expect(profile.unlocks.logJumper).toBe(true);
+    expect(profile.coins).toBe(Configuration.Shop.logJumperCost);
+  });
+
+  it('raises a level at the price of the current one, up to the maximum', () => {
+    giveCoins(1_000_000);
+    expect(purchase('health')).toBe('purchased');
+    expect(loadProfile().healthLevel).toBe(2);
+    expect(loadProfile().coins).toBe(1_000_000 - Configuration.Shop.healthUpgradeCost(1));
+
+    while (purchase('health') === 'purchased');
+    const profile = loadProfile();
+    expect(profile.healthLevel).toBe(Configuration.Shop.maxHealthLevel);
+    expect(shopOffer('health', profile).state).toBe('maxed');
+  });
+
+  it('adds a pack of items to the kept ones', () => {
+    giveCoins(Configuration.Shop.honey4PackCost);
+    expect(purchase('honeyPack')).toBe('purchased');
+    expect(loadProfile().items.honey).toBe(TREASURE_PACK_SIZE);
+  });
+
+  it('sells every item at its iOS price', () => {
+    const { Shop } = Configuration;
+    const profile = loadProfile();
+    expect(shopOffer('logJumper', profile).cost).toBe(300);
+    expect(shopOffer('superJump', profile).cost).toBe(500);
+    expect(shopOffer('rocket', profile).cost).toBe(500);
+    expect(shopOffer('cannonJump', profile).cost).toBe(1000);
+    expect(shopOffer('comboBoost', profile).cost).toBe(500);
+    expect(shopOffer('lifevestPack', profile).cost).toBe(100);
+    const weaponPacks: ShopItem[] = ['honeyPack', 'crossPack', 'swatterPack', 'axePack'];
+    for (const pack of weaponPacks) {
+      expect(shopOffer(pack, profile).cost).toBe(20);
+    }
+    expect(shopOffer('scrollSaverPack', profile).cost).toBe(Shop.lifevest4PackCost);
+  });
+});
@@ -0,0 +1,166 @@
+// The shop, after ShopViewController on iOS: levelled upgrades, one-off
+// unlocks and packs of consumable items, paid for from the coin wallet. A
+// purchase checks the price first, then takes the coins in the same profile
+// update as it hands over what was bought, so a purchase can't half happen
+// and one that doesn't go through saves nothing.
+
+import { Configuration } from './config';
+import { CarriedItem } from './items';
+import { loadProfile, Profile, Unlock, updateProfile } from './profile';
+import { TREASURE_PACK_SIZE } from './treasure';
+
+export type ShopItem =
+  | 'jump'
+  | 'health'
+  | 'logJumper'
+  | 'cannonJump'
+  | 'comboBoost'
+  | 'superJump'
+  | 'rocket'
+  | 'lifevestPack'
+  | 'honeyPack'
+  | 'crossPack'
+  | 'swatterPack'
+  | 'axePack'
+  | 'scrollSaverPack';
+
+export type ShopSection = 'upgrades' | 'unlocks' | 'consumables';
+
+/** Unlocks sold in the shop; the doubled times come from the in-run upgrade menu instead. */
+export type ShopUnlock = Exclude<Unlock, 'doubleSuperJumpTime' | 'doubleRocketTime'>;
+
+export type ShopItemSpec = { title: string; description: string; section: ShopSection } & (
+  | { type: 'level'; level: 'jumpLevel' | 'healthLevel' }
+  | { type: 'unlock'; unlock: ShopUnlock }
+  | { type: 'pack'; item: CarriedItem }
+);
+
+/** What the shop shows for an item: its price, and whether it can be bought at all. */
+export interface ShopOffer {
+  cost: number;
+  /** Current level for levelled upgrades, items kept for packs, and 0 or 1 for unlocks. */
+  level: number;
+  /** Highest level, or null for packs, which have no limit. */
+  maxLevel: number | null;
+  state: 'available' | 'owned' | 'maxed';
+}
+
+/** What came of trying to buy something. */
+export type PurchaseResult = 'purchased' | 'tooExpensive' | 'unavailable';
+
+export const SHOP_SECTIONS: Record<ShopSection, string> = {
+  upgrades: 'Permanent Upgrades',
+  unlocks: 'Upgrade Menu Unlocks',
+  consumables: 'Consumables',
+};
+
+export const SHOP_ITEMS: Record<ShopItem, ShopItemSpec> = {
+  jump: { title: 'Gym Membership', description: 'Increases jump power', section: 'upgrades', type: 'level', level: 'jumpLevel' },
+  health: { title: 'Extra Heart', description: 'Start with +1 HP', section: 'upgrades', type: 'level', level: 'healthLevel' },
+  logJumper: { title: 'Log Jumper', description: 'Land on logs safely!', section: 'upgrades', type: 'unlock', unlock: 'logJumper' },
+  cannonJump: {
+    title: 'Cannon Jump',
+    description: 'Act as a cannon ball +3 times per run/race!',
+    section: 'upgrades',
+    type: 'unlock',
+    unlock: 'cannonJump',
+  },
+  comboBoost: {
+    title: 'Combo Boost',
+    description: 'Become invincible after 15 combos instead of 25',
+    section: 'upgrades',
+    type: 'unlock',
+    unlock: 'comboBoost',
+  },
+  superJump: {
+    title: 'Super Jump ⚡️',
+    description: 'Double jump range + invincible',
+    section: 'unlocks',
+    type: 'unlock',
+    unlock: 'superJump',
+  },
+  rocket: { title: 'Rocket 🚀', description: 'Fly for 10 seconds', section: 'unlocks', type: 'unlock', unlock: 'rocket' },
+  lifevestPack: { title: 'Life Vest (4-Pack)', description: 'Float safely out of the water', section: 'consumables', type: 'pack', item: 'vest' },
+  honeyPack: { title: 'Honey Jars (4-Pack)', description: 'Distract the bees', section: 'consumables', type: 'pack', item: 'honey' },
+  crossPack: { title: 'Crosses (4-Pack)', description: 'Banish the ghosts', section: 'consumables', type: 'pack', item: 'cross' },
+  swatterPack: {
+    title: 'Dragonfly Swatters (4-Pack)',
+    description: 'Swat away dragonflies',
+    section: 'consumables',
+    type: 'pack',
+    item: 'swatter',
+  },
+  axePack: { title: 'Axes (4-Pack)', description: 'Chop through logs and snakes', section: 'consumables', type: 'pack', item: 'axe' },
+  scrollSaverPack: {
+    title: 'Scroll Savers (4-Pack)',
+    description: 'Get pulled back up when the river leaves you behind',
+    section: 'consumables',
+    type: 'pack',
+    item: 'scrollSavers',
+  },
+};
+
+const UNLOCK_COSTS: Record<ShopUnlock, number> = {
+  logJumper: Configuration.Shop.logJumperCost,
+  superJump: Configuration.Shop.superJumpCost,
+  rocket: Configuration.Shop.rocketJumpCost,
+  cannonJump: Configuration.Shop.cannonJumpCost,
+  comboBoost: Configuration.Shop.comboBoostCost,
+};
+
+const PACK_COSTS: Record<CarriedItem, number> = {
+  vest: Configuration.Shop.lifevest4PackCost,
+  honey: Configuration.Shop.honey4PackCost,
+  cross: Configuration.Shop.cross4PackCost,
+  swatter: Configuration.Shop.swatter4PackCost,
+  axe: Configuration.Shop.axe4PackCost,
+  // iOS has no scroll savers; they sell at the price of the other rescue item.
+  scrollSavers: Configuration.Shop.lifevest4PackCost,
+};
+
+/** What `item` costs the owner of `profile`, and whether they can still buy it. */
+export function shopOffer(item: ShopItem, profile: Profile): ShopOffer {
+  const spec = SHOP_ITEMS[item];
+  const { Shop } = Configuration;
+  switch (spec.type) {
+    case 'level': {
+      const level = profile[spec.level];
+      const [maxLevel, cost] =
+        spec.level === 'jumpLevel'
+          ? [Shop.maxJumpLevel, Shop.jumpUpgradeCost(level)]
+          : [Shop.maxHealthLevel, Shop.healthUpgradeCost(level)];
+      return { cost, level, maxLevel, state: level >= maxLevel ? 'maxed' : 'available' };
+    }
+    case 'unlock': {
+      const owned = profile.unlocks[spec.unlock];
+      return { cost: UNLOCK_COSTS[spec.unlock], level: owned ? 1 : 0, maxLevel: 1, state: owned ? 'owned' : 'available' };
+    }
+    case 'pack':
+      return { cost: PACK_COSTS[spec.item], level: profile.items[spec.item], maxLevel: null, state: 'available' };
+  }
+}
+
+/** Buys `item` if it's for sale and there are coins enough. Nothing is saved unless it is. */
+export function purchase(item: ShopItem): PurchaseResult {
+  const current = loadProfile();
+  const offer = shopOffer(item, current);
+  if (offer.state !== 'available') return 'unavailable';
+  if (current.coins < offer.cost) return 'tooExpensive';
+
+  const spec = SHOP_ITEMS[item];
+  updateProfile((profile) => {
+    profile.coins -= offer.cost;
+    switch (spec.type) {
+      case 'level':
+        profile[spec.level]++;
+        break;
+      case 'unlock':
+        profile.unlocks = { ...profile.unlocks, [spec.unlock]: true };
+        break;
+      case 'pack':
+        profile.items = { ...profile.items, [spec.item]: profile.items[spec.item] + TREASURE_PACK_SIZE };
+        break;
+    }
+  });
+  return 'purchased';
+}
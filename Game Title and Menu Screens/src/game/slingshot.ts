@@ -0,0 +1,146 @@
+import { Configuration } from './config';
+import { Vec2 } from './types';
+
+// Releasing within this many drag units of where the drag started cancels the
+// jump, same as the iOS dead zone in `touchesEnded`.
+const CANCEL_DISTANCE = 10;
+
+export interface SlingshotAim {
+  /** Pull-back vector in world orientation (+y is forward), clamped to maxDragDistance. */
+  pull: Vec2;
+  /** 0..1 share of the maximum drag distance. */
+  power: number;
+  /** True while the pointer is back inside the cancel zone around the drag origin. */
+  cancelled: boolean;
+}
+
+export interface SlingshotHandlers {
+  /** Whether a new drag may start right now (e.g. the frog is grounded). */
+  canAim: () => boolean;
+  /** Called on every drag update, and with `null` when aiming ends without a jump. */
+  onAim: (aim: SlingshotAim | null) => void;
+  /** Called when the pointer is released outside the cancel zone. */
+  onRelease: (aim: SlingshotAim) => void;
+}
+
+/**
+ * Drag-back-and-release aiming, ported from `SlingshotController.swift` and the
+ * touch handling in `GameScene`. Uses pointer events so mouse, touch and pen
+ * all behave the same. Only one pointer aims at a time; extra fingers that
+ * land while dragging are ignored rather than hijacking the shot.
+ */
+export class SlingshotController {
+  private pointerId: number | null = null;
+  private start: Vec2 = { x: 0, y: 0 };
+  private aim: SlingshotAim | null = null;
+  // Screen pixels needed for a full-power drag. Small game areas on phones
+  // can't fit 300px of travel, so the reach shrinks with the canvas.
+  private maxDragPixels: number = Configuration.Physics.maxDragDistance;
+
+  constructor(
+    private readonly element: HTMLElement,
+    private readonly handlers: SlingshotHandlers,
+  ) {
+    element.style.touchAction = 'none';
+    element.addEventListener('pointerdown', this.handlePointerDown);
+    element.addEventListener('pointermove', this.handlePointerMove);
+    element.addEventListener('pointerup', this.handlePointerUp);
+    element.addEventListener('pointercancel', this.handlePointerCancel);
+    element.addEventListener('lostpointercapture', this.handlePointerCancel);
+    element.addEventListener('contextmenu', this.handleContextMenu);
+  }
+
+  get isAiming() {
+    return this.pointerId !== null;
+  }
+
+  /** Adapts the full-power drag length to the visible game area. */
+  resize(width: number, height: number) {
+    this.maxDragPixels = Math.min(Configuration.Physics.maxDragDistance, Math.min(width, height) * 0.6);
+  }
+
+  /** Drops the current drag without jumping. */
+  cancel() {
+    if (this.pointerId === null) return;
+    const pointerId = this.pointerId;
+    this.pointerId = null;
+    this.aim = null;
+    if (this.element.hasPointerCapture(pointerId)) {
+      this.element.releasePointerCapture(pointerId);
+    }
+    this.handlers.onAim(null);
+  }
+
+  destroy() {
+    this.cancel();
+    this.element.removeEventListener('pointerdown', this.handlePointerDown);
+    this.element.removeEventListener('pointermove', this.handlePointerMove);
+    this.element.removeEventListener('pointerup', this.handlePointerUp);
+    this.element.removeEventListener('pointercancel', this.handlePointerCancel);
+    this.element.removeEventListener('lostpointercapture', this.handlePointerCancel);
+    this.element.removeEventListener('contextmenu', this.handleContextMenu);
+  }
+
+  private handlePointerDown = (event: PointerEvent) => {
+    if (this.pointerId !== null) return;
+    if (event.pointerType === 'mouse' && event.button !== 0) return;
+    if (!this.handlers.canAim()) return;
+
+    event.preventDefault();
+    this.pointerId = event.pointerId;
+    this.start = { x: event.clientX, y: event.clientY };
+    this.element.setPointerCapture(event.pointerId);
+    this.updateAim(event);
+  };
+
+  private handlePointerMove = (event: PointerEvent) => {
+    if (event.pointerId !== this.pointerId) return;
+    this.updateAim(event);
+  };
+
+  private handlePointerUp = (event: PointerEvent) => {
+    if (event.pointerId !== this.pointerId) return;
+    // Use the exact release position rather than the last move event.
+    this.updateAim(event);
+    const aim = this.aim;
+    this.pointerId = null;
+    this.aim = null;
+
+    if (!aim || aim.cancelled) {
+      this.handlers.onAim(null);
+      return;
+    }
+    this.handlers.onRelease(aim);
+  };
+
+  private handlePointerCancel = (event: PointerEvent) => {
+    if (event.pointerId !== this.pointerId) return;
+    this.cancel();
+  };
+
+  private handleContextMenu = (event: Event) => {
+    // Long-press on touch devices would otherwise open the context menu mid-drag.
+    event.preventDefault();
+  };
+
+  private updateAim(event: PointerEvent) {
+    const unitsPerPixel = Configuration.Physics.maxDragDistance / this.maxDragPixels;
+    // Screen y grows downward, world y grows forward (up the screen).
+    let pullX = (this.start.x - event.clientX) * unitsPerPixel;
+    let pullY = (event.clientY - this.start.y) * unitsPerPixel;
+    const distance = Math.hypot(pullX, pullY);
+
+    const maxDistance = Configuration.Physics.maxDragDistance;
+    if (distance > maxDistance) {
+      pullX *= maxDistance / distance;
+      pullY *= maxDistance / distance;
+    }
+
+    this.aim = {
+      pull: { x: pullX, y: pullY },
+      power: Math.min(distance, maxDistance) / maxDistance,
+      cancelled: distance < CANCEL_DISTANCE,
+    };
+    this.handlers.onAim(this.aim);
+  }
+}
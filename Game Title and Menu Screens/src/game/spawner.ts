@@ -0,0 +1,157 @@
+// Places enemies and pickups on freshly generated pads, following the
+// per-pad spawn rolls at the end of GameScene.generateNextLevelSlice.
+
+import { Configuration } from './config';
+import { DifficultyDirector } from './difficulty';
+import { createCrocodile, CROCODILE_HALF_HEIGHT, CROCODILE_HALF_WIDTH } from './crocodiles';
+import { createEnemy, hasCrossedRiver, SNAKE_START_X } from './enemies';
+import { Random, randomRange } from './random';
+import { rollTreasureReward } from './treasure';
+import { Collectible, Pad, Vec2, World } from './types';
+
+const COIN_PROBABILITY = 0.5;
+// Chests are rare, and only on plain lily pads.
+const TREASURE_CHEST_PROBABILITY = 0.01;
+// Coins hover a little above the pad.
+const COIN_HEIGHT = 20;
+// Bees and dragonflies start just ahead of the pad they spawn over.
+const ENEMY_OFFSET_Y = 50;
+// A disturbed grave lets its ghost out after a short pause, just above the grave.
+const GHOST_DELAY = 2;
+const GHOST_OFFSET_Y = 40;
+// Crocodiles lurk in open water just ahead of a water lily and surface after a while.
+const CROCODILE_SPAWN_ATTEMPTS = 10;
+const CROCODILE_BANK_MARGIN = 20;
+const CROCODILE_MIN_OFFSET_Y = 50;
+const CROCODILE_MAX_OFFSET_Y = 150;
+const CROCODILE_MIN_RISE_DELAY = 1;
+const CROCODILE_MAX_RISE_DELAY = 4;
+// Entities this far below the bottom of the screen are dropped. Snakes cross
+// sideways and get much more room, so slow ones still finish crossing.
+const CLEANUP_MARGIN = 200;
+const SNAKE_CLEANUP_MARGIN = 1000;
+
+/** Where the screen is when a new pad is populated. */
+export interface SpawnContext {
+  cameraY: number;
+  viewHeight: number;
+}
+
+interface PendingGhost {
+  padId: number;
+  spawnAt: number;
+}
+
+export class EntitySpawner {
+  private nextId = 0;
+  private crocodilesSpawned = 0;
+  private pendingGhosts: PendingGhost[] = [];
+
+  constructor(
+    private readonly random: Random,
+    private readonly difficulty: DifficultyDirector,
+  ) {}
+
+  /** Rolls for everything that can appear on a new pad. */
+  populatePad(world: World, pad: Pad, { cameraY, viewHeight }: SpawnContext) {
+    const { Difficulty } = Configuration;
+    const { difficulty } = this;
+
+    if (this.random() < COIN_PROBABILITY) {
+      world.collectibles.push(this.createCollectible(pad));
+    }
+
+    const canSpawnChest = pad.type === 'normal' || pad.type === 'moving' || pad.type === 'waterLily';
+    if (canSpawnChest && this.random() < TREASURE_CHEST_PROBABILITY) {
+      world.treasureChests.push({ id: this.nextId++, padId: pad.id, reward: rollTreasureReward(this.random) });
+    }
+
+    // Snakes set off from the left bank near the middle of the screen, so
+    // they are in view for the few seconds it takes them to cross.
+    const snakeCount = world.enemies.filter((enemy) => enemy.type === 'snake' && !enemy.isBeingDestroyed).length;
+    const snakeChance = difficulty.chance('snake');
+    if (snakeChance > 0 && this.random() < snakeChance && snakeCount < Difficulty.snakeMaxOnScreen) {
+      const y = cameraY + randomRange(this.random, -viewHeight / 4, viewHeight / 4);
+      world.enemies.push(createEnemy(this.nextId++, 'snake', SNAKE_START_X, y));
+    }
+
+    // Shrinking pads, graves and logs never carry enemies; graves have their ghost.
+    const canSpawnEnemy = pad.type === 'normal' || pad.type === 'moving' || pad.type === 'ice' || pad.type === 'waterLily';
+    if (canSpawnEnemy && this.random() < difficulty.chance('enemy')) {
+      const type = this.random() < difficulty.chance('dragonfly') ? 'dragonfly' : 'bee';
+      world.enemies.push(createEnemy(this.nextId++, type, pad.x, pad.y + ENEMY_OFFSET_Y));
+    }
+
+    const canSpawnCrocodile = pad.type === 'waterLily' && this.crocodilesSpawned < Difficulty.crocodileMaxPerRun;
+    if (canSpawnCrocodile && this.random() < difficulty.chance('crocodile')) {
+      const position = this.findCrocodileSpawn(world.pads, pad.y);
+      if (position) {
+        const riseDelay = randomRange(this.random, CROCODILE_MIN_RISE_DELAY, CROCODILE_MAX_RISE_DELAY);
+        world.crocodiles.push(createCrocodile(this.nextId++, position.x, position.y, riseDelay));
+        this.crocodilesSpawned++;
+      }
+    }
+  }
+
+  /** Lets a grave's ghost out once, a moment after the frog lands on it. */
+  disturbGrave(world: World, pad: Pad) {
+    if (pad.type !== 'grave' || pad.hasSpawnedGhost) return;
+    pad.hasSpawnedGhost = true;
+    this.pendingGhosts.push({ padId: pad.id, spawnAt: world.time + GHOST_DELAY });
+  }
+
+  /** Releases ghosts whose wait is over. */
+  update(world: World) {
+    if (this.pendingGhosts.length === 0) return;
+    this.pendingGhosts = this.pendingGhosts.filter((ghost) => {
+      if (world.time < ghost.spawnAt) return true;
+      // No ghost if the grave was recycled in the meantime.
+      const pad = world.pads.find((candidate) => candidate.id === ghost.padId);
+      if (pad) world.enemies.push(createEnemy(this.nextId++, 'ghost', pad.x, pad.y + GHOST_OFFSET_Y));
+      return false;
+    });
+  }
+
+  /** Drops entities that scrolled off the bottom of the screen, and snakes that finished crossing. */
+  recycle(world: World, cameraY: number, viewHeight: number) {
+    const bottom = cameraY - viewHeight / 2;
+    const thresholdY = bottom - CLEANUP_MARGIN;
+    world.collectibles = world.collectibles.filter((item) => item.y >= thresholdY);
+    // Chests go with their pad, however it went.
+    world.treasureChests = world.treasureChests.filter((chest) => world.pads.some((pad) => pad.id === chest.padId));
+    // Never drop the crocodile the frog is riding.
+    world.crocodiles = world.crocodiles.filter(
+      (croc) => croc.y >= thresholdY || croc.id === world.frog.ridingCrocodileId,
+    );
+    world.enemies = world.enemies.filter((enemy) => {
+      if (enemy.type !== 'snake') return enemy.y >= thresholdY;
+      return enemy.y >= bottom - SNAKE_CLEANUP_MARGIN && !hasCrossedRiver(enemy);
+    });
+  }
+
+  // A spot in open water, clear of every pad and log; null if none turns up.
+  private findCrocodileSpawn(pads: readonly Pad[], nearY: number): Vec2 | null {
+    const { riverWidth } = Configuration.Dimensions;
+    for (let attempt = 0; attempt < CROCODILE_SPAWN_ATTEMPTS; attempt++) {
+      const x = randomRange(
+        this.random,
+        CROCODILE_HALF_WIDTH + CROCODILE_BANK_MARGIN,
+        riverWidth - CROCODILE_HALF_WIDTH - CROCODILE_BANK_MARGIN,
+      );
+      const y = nearY + randomRange(this.random, CROCODILE_MIN_OFFSET_Y, CROCODILE_MAX_OFFSET_Y);
+      const overlaps = pads.some((pad) => {
+        const padExtent = pad.type === 'log' ? 80 : 60;
+        return (
+          Math.abs(pad.x - x) < CROCODILE_HALF_WIDTH + padExtent &&
+          Math.abs(pad.y - y) < CROCODILE_HALF_HEIGHT + padExtent
+        );
+      });
+      if (!overlaps) return { x, y };
+    }
+    return null;
+  }
+
+  private createCollectible(pad: Pad): Collectible {
+    return { id: this.nextId++, type: 'coin', x: pad.x, y: pad.y, z: COIN_HEIGHT, isCollected: false };
+  }
+}
@@ -0,0 +1,128 @@
+// Sprite lookup for the canvas renderer. The artwork lives at the repository
+// root next to the iOS project, so both clients share one set of assets.
+// The few sprites only kept in the iOS asset catalog are taken from there.
+// Only the files the web game actually shows are bundled.
+
+const spriteUrls = import.meta.glob<string>(
+  [
+    '../../../frogSit.png',
+    '../../../frogJump1.png',
+    '../../../frogRecoil.png',
+    '../../../lilypadDay.png',
+    '../../../lilypadNight.png',
+    '../../../lilypadRain.png',
+    '../../../lilypadSnow.png',
+    '../../../lilypadDesert.png',
+    '../../../lilypadSpace.png',
+    '../../../lilypadWater.png',
+    '../../../LilypadWaterNight.png',
+    '../../../LilypadWaterRain.png',
+    '../../../LilypadWaterSnow.png',
+    '../../../lilypadWaterSand.png',
+    '../../../lilypadWaterSpace.png',
+    '../../../LilypadShrink.png',
+    '../../../lilypadShrinkSpace.png',
+    '../../../LilypadGrave.png',
+    '../../../LilypadIce.png',
+    '../../../landingPad.png',
+    '../../../warpPad.png',
+    '../../../log.png',
+    '../../../logNight.png',
+    '../../../logRain.png',
+    '../../../logWinter.png',
+    '../../../logSpace.png',
+    '../../../star.png',
+    '../../../beeNight.png',
+    '../../../beeRain.png',
+    '../../../beeWinter.png',
+    '../../../beeDesert.png',
+    '../../../beeSpace.png',
+    '../../../dragonflyNight.png',
+    '../../../dragonflyRain.png',
+    '../../../dragonflyWinter.png',
+    '../../../dragonflyDesert.png',
+    '../../../asteroid.png',
+    '../../../ghostFrog.png',
+    '../../../crocodile.png',
+    '../../../crocodile1.png',
+    '../../../crocodile2.png',
+    '../../../crocodile3.png',
+    '../../../crocodile4.png',
+    '../../../crocodile5.png',
+    '../../../snakeDesert1.png',
+    '../../../snakeDesert2.png',
+    '../../../snakeDesert3.png',
+    '../../../snakeDesert4.png',
+    '../../../snakeDesert5.png',
+    '../../../honeyPot.png',
+    '../../../swatter.png',
+    '../../../ax.png',
+    '../../../cross.png',
+    '../../../treasureChest.png',
+    '../../../treasureBackdrop.png',
+    '../../../boat.png',
+    '../../../finishLine.png',
+    '../../../rocketRide1.png',
+    '../../../rocketRide2.png',
+    '../../../rocketRide3.png',
+    '../../../rocketRide4.png',
+    '../../../rocketRide5.png',
+    '../../../rocketExplode1.png',
+    '../../../rocketExplode2.png',
+    '../../../rocketExplode3.png',
+    '../../../rocketExplode4.png',
+    '../../../rocketExplode5.png',
+    '../../../rocketExplode6.png',
+    '../../../frogFall1.png',
+    '../../../frogFall2.png',
+    '../../../frogFall3.png',
+    '../../../frogFall4.png',
+    '../../../frogFall5.png',
+    '../../../frogFall6.png',
+    '../../../frogFall7.png',
+    '../../../frogFall8.png',
+    '../../../StuntFrogRunner Shared/Assets.xcassets/Enemies.spriteatlas/bee.imageset/bee.png',
+    '../../../StuntFrogRunner Shared/Assets.xcassets/Enemies.spriteatlas/dragonfly.imageset/dragonfly.png',
+    '../../../StuntFrogRunner Shared/Assets.xcassets/Enemies.spriteatlas/snake1.imageset/snake1.png',
+    '../../../StuntFrogRunner Shared/Assets.xcassets/Enemies.spriteatlas/snake2.imageset/snake2.png',
+    '../../../StuntFrogRunner Shared/Assets.xcassets/Enemies.spriteatlas/snake3.imageset/snake3.png',
+    '../../../StuntFrogRunner Shared/Assets.xcassets/Enemies.spriteatlas/snake4.imageset/snake4.png',
+    '../../../StuntFrogRunner Shared/Assets.xcassets/Enemies.spriteatlas/snake5.imageset/snake5.png',
+  ],
+  { eager: true, query: '?url', import: 'default' },
+);
+
+const urlsByName = new Map<string, string>();
+for (const [path, url] of Object.entries(spriteUrls)) {
+  const name = path.slice(path.lastIndexOf('/') + 1).replace(/\.png$/, '');
+  urlsByName.set(name, url);
+}
+
+const images = new Map<string, HTMLImageElement>();
+
+/**
+ * Returns the decoded image for a sprite name (file name without `.png`),
+ * or `null` while it is still loading or if the sprite isn't bundled.
+ * Callers should fall back to simple shapes when this returns `null`.
+ */
+export function getSprite(name: string): HTMLImageElement | null {
+  let image = images.get(name);
+  if (!image) {
+    const url = urlsByName.get(name);
+    if (!url) return null;
+    image = new Image();
+    image.src = url;
+    images.set(name, image);
+  }
+  return image.complete && image.naturalWidth > 0 ? image : null;
+}
+
+/** URL of a bundled sprite, for showing it outside the canvas; undefined if it isn't bundled. */
+export function spriteUrl(name: string) {
+  return urlsByName.get(name);
+}
+
+/** Starts loading the given sprites ahead of time so the first frames aren't blank. */
+export function preloadSprites(names: readonly string[]) {
+  names.forEach(getSprite);
+}
@@ -0,0 +1,18 @@
+// Helpers for the unit tests; nothing in the game imports this.
+
+import { afterEach, beforeEach, vi } from 'vitest';
+
+/** Gives each test in the file a fresh, empty localStorage for the profile to be saved in. */
+export function withMemoryStorage() {
+  beforeEach(() => {
+    const items = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => void items.set(key, value),
+      removeItem: (key: string) => void items.delete(key),
+    });
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+}
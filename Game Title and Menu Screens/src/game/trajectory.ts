@@ -0,0 +1,58 @@
+// Predicted jump arc shown while aiming (TrajectoryRenderer.swift on iOS).
+
+import { WeatherType } from './config';
+import { constrainToRiver, jump, LaunchVelocity, stepFrog } from './physics';
+import { Frog, Vec2 } from './types';
+
+// Matches the iOS renderer: 25 dots, one every third simulation step.
+const MAX_DOTS = 25;
+const DOT_INTERVAL = 3;
+// Safety net for very floaty jumps; a normal jump lands well before this.
+const MAX_STEPS = 600;
+
+export type LandingSurface = 'pad' | 'water' | 'hazard';
+
+export interface TrajectoryPoint {
+  x: number;
+  y: number;
+  z: number;
+  /** 0 at launch, 1 at touchdown. Used to fade and shrink the dots. */
+  progress: number;
+}
+
+export interface TrajectoryPreview {
+  points: TrajectoryPoint[];
+  landing: Vec2;
+  surface: LandingSurface;
+}
+
+/**
+ * Runs the same fixed-step integration the real jump uses on a copy of the
+ * frog, and reports where it comes down.
+ */
+export function predictTrajectory(
+  frog: Frog,
+  launch: LaunchVelocity,
+  weather: WeatherType,
+  surfaceAt: (point: Vec2) => LandingSurface,
+): TrajectoryPreview {
+  const body: Frog = { ...frog, z: 0 };
+  const path: Omit<TrajectoryPoint, 'progress'>[] = [];
+  jump(body, launch);
+
+  for (let step = 0; step < MAX_STEPS; step++) {
+    const landed = stepFrog(body, { weather });
+    constrainToRiver(body);
+    if (landed) break;
+    path.push({ x: body.x, y: body.y, z: body.z });
+  }
+
+  const stride = Math.max(DOT_INTERVAL, Math.ceil(path.length / MAX_DOTS));
+  const points: TrajectoryPoint[] = [];
+  for (let i = 0; i < path.length; i += stride) {
+    points.push({ ...path[i], progress: i / path.length });
+  }
+
+  const landing = { x: body.x, y: body.y };
+  return { points, landing, surface: surfaceAt(landing) };
+}
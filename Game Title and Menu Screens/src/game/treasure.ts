@@ -0,0 +1,44 @@
+// Treasure chests, after TreasureChest in GameEntity.swift. A chest sits on a
+// pad and opens when the frog lands there, handing out a reward rolled when
+// it spawned. iOS picks rewards evenly; here each has a weight, so the
+// valuable ones can be made rarer.
+
+import type { ItemType } from './items';
+import { Random } from './random';
+
+export type TreasureReward = 'heartsRefill' | 'lifevest4Pack' | 'cross4Pack' | 'axe4Pack' | 'swatter4Pack';
+
+export interface TreasureRewardSpec {
+  displayName: string;
+  icon: string;
+  /** Relative chance of this reward; only the ratios between rewards matter. */
+  weight: number;
+  /** The item a pack holds; hearts aren't an item. */
+  item: ItemType | null;
+}
+
+// Chests give out items four at a time.
+export const TREASURE_PACK_SIZE = 4;
+
+// Life vests cost five times as much as the other packs in the shop, so they
+// turn up least.
+export const TREASURE_REWARDS: Record<TreasureReward, TreasureRewardSpec> = {
+  heartsRefill: { displayName: 'Full Hearts!', icon: '❤️‍🔥', weight: 3, item: null },
+  lifevest4Pack: { displayName: '4x Life Vest', icon: '🦺', weight: 1, item: 'vest' },
+  cross4Pack: { displayName: '4x Holy Cross', icon: '✝️', weight: 2, item: 'cross' },
+  axe4Pack: { displayName: '4x Axe', icon: '🪓', weight: 2, item: 'axe' },
+  swatter4Pack: { displayName: '4x Swatter', icon: '🏸', weight: 2, item: 'swatter' },
+};
+
+const REWARD_ORDER = Object.keys(TREASURE_REWARDS) as TreasureReward[];
+
+/** Picks a reward by weight, drawing once from `random`. */
+export function rollTreasureReward(random: Random): TreasureReward {
+  const total = REWARD_ORDER.reduce((sum, reward) => sum + TREASURE_REWARDS[reward].weight, 0);
+  let roll = random() * total;
+  for (const reward of REWARD_ORDER) {
+    roll -= TREASURE_REWARDS[reward].weight;
+    if (roll < 0) return reward;
+  }
+  return REWARD_ORDER[REWARD_ORDER.length - 1];
+}
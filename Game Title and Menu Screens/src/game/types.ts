@@ -0,0 +1,204 @@
+// Shared world state for the web game engine.
+// Units match the iOS scene: x runs across the river (0 to riverWidth),
+// y increases in the direction the frog travels, z is height above the water.
+
+import type { Ability, TimedBuffs } from './buffs';
+import type { Combo } from './combo';
+import type { PadType, WeatherType } from './config';
+import type { DailyChallenge } from './daily';
+import type { WeaponType } from './effects';
+import type { Health } from './health';
+import type { Race } from './race';
+import type { RocketLandingTarget } from './rocket';
+import type { SlingshotAim } from './slingshot';
+import type { TrajectoryPreview } from './trajectory';
+import type { TreasureReward } from './treasure';
+
+export interface Vec2 {
+  x: number;
+  y: number;
+}
+
+/** Endless running, a race against the boat to a finish line, or the day's challenge. */
+export type GameMode = 'endless' | 'beatTheBoat' | 'daily';
+
+/** Rocket ride: off, flying, hovering while picking a landing spot, then the explosion and fall. */
+export type RocketState = 'none' | 'flying' | 'landing' | 'descending';
+
+/** A cannon jump is armed on a pad, then flies with the next jump until it lands. */
+export type CannonJumpState = 'none' | 'armed' | 'flying';
+
+export interface Frog {
+  x: number;
+  y: number;
+  z: number;
+  vx: number;
+  vy: number;
+  vz: number;
+  // Pad the frog is sitting on, or null while airborne or in the water.
+  onPadId: number | null;
+  // Paddling in the water after a fall; the frog can still jump out.
+  isFloating: boolean;
+  // Crocodile the frog is riding, or null.
+  ridingCrocodileId: number | null;
+  rocketState: RocketState;
+  // Seconds left in the current rocket state.
+  rocketTimer: number;
+  cannonJump: CannonJumpState;
+}
+
+export interface Pad {
+  id: number;
+  type: PadType;
+  x: number;
+  y: number;
+  // Visual radius before shrinking; see padPhysicsRadius for the solid part.
+  radius: number;
+  // Sideways drift of moving pads, water lilies and logs, per step.
+  moveSpeed: number;
+  moveDirection: 1 | -1;
+  // Current size of a shrinking pad relative to `radius` (0.75 to 1).
+  scale: number;
+  shrinkTime: number;
+  shrinkSpeed: number;
+  // A grave only releases its ghost once.
+  hasSpawnedGhost: boolean;
+}
+
+export type EnemyType = 'bee' | 'dragonfly' | 'ghost' | 'snake';
+
+export interface Enemy {
+  id: number;
+  type: EnemyType;
+  x: number;
+  y: number;
+  z: number;
+  // Where the enemy spawned; bees circle it and dragonflies weave around its x.
+  originX: number;
+  originY: number;
+  // Phase of the circling or weaving motion.
+  angle: number;
+  // Drawing scale; snakes swell a little while crossing a pad.
+  scale: number;
+  // Set once the enemy has hit the frog or been knocked out, so it can't hit
+  // the frog again while it plays out its exit.
+  isBeingDestroyed: boolean;
+}
+
+export type CrocodileState = 'submerged' | 'rising' | 'idle' | 'fleeing' | 'carrying';
+
+export interface Crocodile {
+  id: number;
+  x: number;
+  y: number;
+  state: CrocodileState;
+  // Time spent in the current state.
+  stateTime: number;
+  // How long the crocodile stays under before it starts to rise.
+  riseDelay: number;
+  // Time the frog has been riding; the ride ends at CROCODILE_CARRY_DURATION.
+  carryTime: number;
+  // Sideways steering while carrying, -1 to 1, fading unless tapped again.
+  steerDirection: number;
+  // 0 while submerged, fading in to 1 as it rises.
+  opacity: number;
+}
+
+export type CollectibleType = 'coin';
+
+export interface Collectible {
+  id: number;
+  type: CollectibleType;
+  x: number;
+  y: number;
+  z: number;
+  isCollected: boolean;
+}
+
+/** A chest waiting on a pad; it opens when the frog lands there. */
+export interface TreasureChest {
+  id: number;
+  padId: number;
+  // Rolled when the chest spawns, so a seed decides what every chest holds.
+  reward: TreasureReward;
+}
+
+/** Crossfade from the previous biome into `World.weather`. */
+export interface WeatherTransition {
+  from: WeatherType;
+  elapsed: number;
+}
+
+/** What an item or weapon is used on. */
+export type ItemTarget = { type: 'enemy'; enemy: Enemy } | { type: 'pad'; pad: Pad };
+
+export type AbilityEffectPhase = 'flying' | 'exiting';
+
+/** A weapon on its way to a target, then the target playing out its exit. */
+export interface AbilityEffect {
+  id: number;
+  weapon: WeaponType;
+  target: ItemTarget;
+  phase: AbilityEffectPhase;
+  // Time spent in the current phase.
+  elapsed: number;
+  // Where the projectile left the frog.
+  originX: number;
+  originY: number;
+  // The projectile, while flying.
+  x: number;
+  y: number;
+  z: number;
+  rotation: number;
+  scale: number;
+}
+
+/** Consumable items carried through the run; see items.ts for what each one does. */
+export interface Inventory {
+  honey: number;
+  swatter: number;
+  axe: number;
+  cross: number;
+  vest: number;
+  // Each one rescues the frog once from scrolling off the bottom of the screen.
+  scrollSavers: number;
+}
+
+export interface Camera {
+  x: number;
+  y: number;
+  // Position at the previous simulation step, used to interpolate rendering.
+  prevX: number;
+  prevY: number;
+}
+
+export interface World {
+  time: number;
+  weather: WeatherType;
+  // Set while the previous biome is still fading out.
+  weatherTransition: WeatherTransition | null;
+  frog: Frog;
+  inventory: Inventory;
+  // Uses left of each ability this run, and the buffs currently running.
+  abilities: Record<Ability, number>;
+  buffs: TimedBuffs;
+  combo: Combo;
+  health: Health;
+  pads: Pad[];
+  enemies: Enemy[];
+  crocodiles: Crocodile[];
+  collectibles: Collectible[];
+  treasureChests: TreasureChest[];
+  effects: AbilityEffect[];
+  camera: Camera;
+  // Current slingshot drag, or null when the player isn't aiming.
+  aim: SlingshotAim | null;
+  // Predicted arc for the current aim, refreshed every step while aiming.
+  trajectory: TrajectoryPreview | null;
+  // Where the frog would come down from its rocket, while it's picking a spot.
+  rocketLanding: RocketLandingTarget | null;
+  // The boat and finish line in a Beat the Boat run; null in other modes.
+  race: Race | null;
+  // The day's challenge in a daily run, which holds its climate and ends at a finish line.
+  daily: DailyChallenge | null;
+}
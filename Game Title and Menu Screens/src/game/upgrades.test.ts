@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { Configuration } from './config';
+import { defaultProfile } from './profile';
+import { upgradeEffects, UpgradeProfile } from './upgrades';
+
+function profileWith(change: Partial<UpgradeProfile>): UpgradeProfile {
+  return { ...defaultProfile(), ...change };
+}
+
+describe('upgradeEffects', () => {
+  it('gives a fresh profile the base run', () => {
+    const { GameRules, Physics } = Configuration;
+    const effects = upgradeEffects(defaultProfile());
+    expect(effects.jumpLevel).toBe(1);
+    expect(effects.dragPower).toBe(Physics.dragPower(1));
+    expect(effects.hearts).toBe(GameRules.baseHearts + 1);
+    expect(effects.canLandOnLogs).toBe(false);
+    expect(effects.abilities).toEqual({ superJump: 0, cannonJump: 0, boots: GameRules.bootsPerRun, rocket: 0 });
+    expect(effects.buffDurations).toEqual({ superJump: GameRules.superJumpDuration, boots: GameRules.bootsDuration });
+    expect(effects.rocketDuration).toBe(GameRules.rocketDuration);
+  });
+
+  it('caps the jump level at what the shop sells', () => {
+    const { maxJumpLevel } = Configuration.Shop;
+    const effects = upgradeEffects(profileWith({ jumpLevel: maxJumpLevel + 2 }));
+    expect(effects.jumpLevel).toBe(maxJumpLevel);
+    expect(effects.dragPower).toBe(Configuration.Physics.dragPower(maxJumpLevel));
+  });
+
+  it('adds earned hearts on top of the health upgrades', () => {
+    const { baseHearts } = Configuration.GameRules;
+    expect(upgradeEffects(profileWith({ healthLevel: 3, heartBoost: 2 })).hearts).toBe(baseHearts + 3 + 2);
+  });
+
+  it('turns unlocks into abilities, longer buffs and an earlier invincibility', () => {
+    const { GameRules } = Configuration;
+    const unlocks = {
+      ...defaultProfile().unlocks,
+      logJumper: true,
+      superJump: true,
+      doubleSuperJumpTime: true,
+      rocket: true,
+      doubleRocketTime: true,
+      comboBoost: true,
+    };
+    const base = upgradeEffects(defaultProfile());
+    const effects = upgradeEffects(profileWith({ unlocks }));
+    expect(effects.canLandOnLogs).toBe(true);
+    expect(effects.abilities.superJump).toBe(GameRules.superJumpsPerRun);
+    expect(effects.abilities.rocket).toBe(GameRules.rocketsPerRun);
+    expect(effects.buffDurations.superJump).toBe(GameRules.superJumpDuration * 2);
+    expect(effects.rocketDuration).toBe(GameRules.rocketDuration * 2);
+    expect(effects.invincibleCombo).toBeLessThan(base.invincibleCombo);
+  });
+});
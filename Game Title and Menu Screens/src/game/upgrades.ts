@@ -0,0 +1,76 @@
+// Upgrade effects, after the way GameScene reads PersistenceManager as a run
+// starts on iOS. Everything bought in the shop or earned from challenges is
+// turned into plain numbers here, once per run, and the engine only ever sees
+// those numbers. `upgradeEffects` works for any profile, not just the saved
+// one, so it doubles as a way to check what a given set of upgrades adds up to.
+
+import { Ability, ABILITY_TYPES, buffDuration, startingAbilities, TIMED_BUFFS, TimedBuff } from './buffs';
+import { invincibleCombo } from './combo';
+import { Configuration } from './config';
+import { maxHearts } from './health';
+import type { Profile } from './profile';
+
+const ABILITY_NAMES: Record<Ability, string> = {
+  superJump: 'Super jump',
+  cannonJump: 'Cannon jump',
+  boots: 'Boots',
+  rocket: 'Rocket',
+};
+
+/** The parts of a profile that change how a run plays. */
+export type UpgradeProfile = Pick<Profile, 'unlocks' | 'jumpLevel' | 'healthLevel' | 'heartBoost'>;
+
+export interface UpgradeEffects {
+  /** Jump upgrade level, capped at what the shop sells. */
+  jumpLevel: number;
+  /** Launch velocity per unit of slingshot drag; see `Configuration.Physics.dragPower`. */
+  dragPower: number;
+  /** Heart slots, all full at the start. */
+  hearts: number;
+  /** Logs are somewhere to land rather than something to bump into. */
+  canLandOnLogs: boolean;
+  /** Uses of each ability the run starts with. */
+  abilities: Record<Ability, number>;
+  /** Seconds each timed buff lasts. */
+  buffDurations: Record<TimedBuff, number>;
+  /** Seconds of rocket flight before the landing window. */
+  rocketDuration: number;
+  /** Landing combo at which the frog turns invincible. */
+  invincibleCombo: number;
+}
+
+/** What `profile`'s upgrades do to a run. */
+export function upgradeEffects({ unlocks, jumpLevel, healthLevel, heartBoost }: UpgradeProfile): UpgradeEffects {
+  const level = Math.min(Math.max(1, jumpLevel), Configuration.Shop.maxJumpLevel);
+  return {
+    jumpLevel: level,
+    dragPower: Configuration.Physics.dragPower(level),
+    hearts: maxHearts(healthLevel, heartBoost),
+    canLandOnLogs: unlocks.logJumper,
+    abilities: startingAbilities(unlocks),
+    buffDurations: Object.fromEntries(TIMED_BUFFS.map((buff) => [buff, buffDuration(buff, unlocks)])) as Record<
+      TimedBuff,
+      number
+    >,
+    rocketDuration: Configuration.GameRules.rocketDuration * (unlocks.doubleRocketTime ? 2 : 1),
+    invincibleCombo: invincibleCombo(unlocks),
+  };
+}
+
+/** The effects as labelled values, for showing next to the upgrades that cause them. */
+export function upgradeStats(effects: UpgradeEffects): { label: string; value: string }[] {
+  const basePower = Configuration.Physics.dragPower(1);
+  const abilities = ABILITY_TYPES.filter((ability) => effects.abilities[ability] > 0);
+  return [
+    { label: 'Jump power', value: `${Math.round((effects.dragPower / basePower) * 100)}%` },
+    { label: 'Hearts', value: `${effects.hearts}` },
+    { label: 'Logs', value: effects.canLandOnLogs ? 'Land on them' : 'Obstacles' },
+    { label: 'Super jump', value: `${effects.buffDurations.superJump}s` },
+    { label: 'Rocket', value: `${effects.rocketDuration}s` },
+    { label: 'Invincible at', value: `×${effects.invincibleCombo} combo` },
+    {
+      label: 'Abilities',
+      value: abilities.length > 0 ? abilities.map((ability) => `${ABILITY_NAMES[ability]} ×${effects.abilities[ability]}`).join(', ') : 'None',
+    },
+  ];
+}
@@ -0,0 +1,85 @@
+// Biome progression, ported from checkWeatherChange/setWeather on iOS. The
+// natural biomes follow each other by distance; space is only reached through
+// the launch pad and only left through the warp pad, which starts a new loop.
+
+import { Configuration, WEATHER_TYPES, WeatherType } from './config';
+import { canSpawnPadType } from './difficulty';
+import { World } from './types';
+
+export const WEATHER_TRANSITION_DURATION = 2;
+
+// Natural progression order; space is handled by the special pads.
+const BIOME_ORDER: readonly WeatherType[] = WEATHER_TYPES.filter((weather) => weather !== 'space');
+
+/** A change of biome, with the score it happened at. */
+export interface WeatherChange {
+  from: WeatherType;
+  to: WeatherType;
+  distance: number;
+}
+
+/** The natural biome `distance` points into a loop. */
+export function weatherForDistance(distance: number): WeatherType {
+  const { nightStart, rainStart, winterStart, desertStart } = Configuration.Weather;
+  if (distance >= desertStart) return 'desert';
+  if (distance >= winterStart) return 'winter';
+  if (distance >= rainStart) return 'rain';
+  if (distance >= nightStart) return 'night';
+  return 'sunny';
+}
+
+export class WeatherSystem {
+  // Score at which the current loop through the biomes began.
+  private loopStart = 0;
+
+  constructor(private readonly onChange: (change: WeatherChange) => void) {}
+
+  /** Advances the crossfade and moves on to the next biome once the frog passes its start. */
+  update(world: World, score: number, dt: number) {
+    const transition = world.weatherTransition;
+    if (transition) {
+      transition.elapsed += dt;
+      if (transition.elapsed >= WEATHER_TRANSITION_DURATION) world.weatherTransition = null;
+    }
+
+    if (world.weather === 'space') return;
+    // Biomes only move forward, so hopping back over a threshold changes nothing.
+    const target = weatherForDistance(this.loopDistance(score));
+    if (BIOME_ORDER.indexOf(target) > BIOME_ORDER.indexOf(world.weather)) {
+      this.setWeather(world, target, score);
+    }
+  }
+
+  /** How far `score` is into the current loop through the biomes. */
+  loopDistance(score: number) {
+    return score - this.loopStart;
+  }
+
+  /** The frog took the launch pad. */
+  launch(world: World, score: number) {
+    this.setWeather(world, 'space', score);
+  }
+
+  /** The frog took the warp pad: back to a sunny day, counting distance afresh. */
+  warp(world: World, score: number) {
+    this.loopStart = score;
+    this.setWeather(world, 'sunny', score);
+  }
+
+  private setWeather(world: World, to: WeatherType, score: number) {
+    const from = world.weather;
+    if (from === to) return;
+    world.weather = to;
+    world.weatherTransition = { from, elapsed: 0 };
+
+    // Pads that can't exist in the new biome become plain pads, like
+    // `convertToNormalIfIncompatible` on iOS.
+    for (const pad of world.pads) {
+      if (!canSpawnPadType(pad.type, to)) {
+        pad.type = 'normal';
+        pad.scale = 1;
+      }
+    }
+    this.onChange({ from, to, distance: score });
+  }
+}
@@ -56,5 +56,9 @@
     server: {
       port: 3000,
       open: true,
+      fs: {
+        // Game sprites are shared with the iOS project at the repository root.
+        allow: ['..'],
+      },
     },
   });
\ No newline at end of file